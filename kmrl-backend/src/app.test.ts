@@ -0,0 +1,32 @@
+import request from 'supertest';
+import { createApp } from './app';
+
+describe('createApp', () => {
+  const app = createApp();
+
+  it('answers the health check', async () => {
+    const res = await request(app).get('/health');
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.status).toBe('ok');
+    expect(res.headers['x-powered-by']).toBeUndefined();
+  });
+
+  it('returns 404 for unknown routes', async () => {
+    const res = await request(app).get('/api/does-not-exist');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toMatchObject({ success: false, error: 'Route not found' });
+  });
+
+  it('turns unhandled errors into a 500 response', async () => {
+    const res = await request(app)
+      .post('/health')
+      .set('Content-Type', 'application/json')
+      .send('{"unterminated":');
+
+    expect(res.status).toBe(500);
+    expect(res.body).toMatchObject({ success: false, error: 'Internal server error' });
+  });
+});
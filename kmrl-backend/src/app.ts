@@ -0,0 +1,145 @@
+import express, { Application, Request, Response } from 'express';
+import helmet from 'helmet';
+import cors from 'cors';
+import compression from 'compression';
+import { Server } from 'http';
+import config from './config';
+import { initializeDatabases, closeDatabases } from './config/database';
+import {
+  helmetOptions,
+  corsOptions,
+  requestLogger,
+  customSecurityHeaders,
+  apiRateLimit,
+  errorHandler,
+  notFoundHandler
+} from './middleware/security';
+import authRoutes from './routes/auth';
+import documentRoutes from './routes/documents';
+import projectRoutes from './routes/projects';
+import searchRoutes from './routes/search';
+import storageRoutes from './routes/storage';
+import classificationRoutes from './routes/classifications';
+import classificationRuleRoutes from './routes/classificationRules';
+import classificationReviewRoutes from './routes/classificationReviews';
+import duplicateRoutes from './routes/duplicates';
+import trashRoutes from './routes/trash';
+import retentionRoutes from './routes/retention';
+import tagRoutes from './routes/tags';
+import { ProcessingQueueService } from './services/ProcessingQueue';
+import { TrashService } from './services/TrashService';
+import { RetentionService } from './services/RetentionService';
+import logger from './utils/logger';
+
+/**
+ * Build the Express application without binding a port
+ */
+export const createApp = (): Application => {
+  const app = express();
+
+  app.disable('x-powered-by');
+  app.set('trust proxy', 1);
+
+  // Security and request handling middleware
+  app.use(helmet(helmetOptions));
+  app.use(cors(corsOptions));
+  app.use(compression());
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true }));
+  app.use(requestLogger);
+  app.use(customSecurityHeaders);
+
+  // Health check (not rate limited)
+  app.get('/health', (req: Request, res: Response) => {
+    res.status(200).json({
+      success: true,
+      data: {
+        status: 'ok',
+        uptime: process.uptime()
+      },
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // API routes
+  app.use('/api', apiRateLimit);
+  app.use('/api/auth', authRoutes);
+  app.use('/api/documents', documentRoutes);
+  app.use('/api/projects', projectRoutes);
+  app.use('/api/search', searchRoutes);
+  app.use('/api/storage', storageRoutes);
+  app.use('/api/classifications', classificationRoutes);
+  app.use('/api/classification-rules', classificationRuleRoutes);
+  app.use('/api/classification-reviews', classificationReviewRoutes);
+  app.use('/api/duplicates', duplicateRoutes);
+  app.use('/api/trash', trashRoutes);
+  app.use('/api/retention', retentionRoutes);
+  app.use('/api/tags', tagRoutes);
+
+  // 404 and error handlers must be registered last
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
+
+/**
+ * Connect databases and start listening for requests
+ */
+export const startServer = async (): Promise<Server> => {
+  await initializeDatabases();
+
+  const app = createApp();
+  const server = app.listen(config.port, () => {
+    logger.info(`KMRL backend listening on port ${config.port} (${config.nodeEnv})`);
+  });
+
+  // Permanently remove items whose trash retention has expired and list records past
+  // their retention period for disposition
+  TrashService.start();
+  RetentionService.start();
+
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    logger.info(`${signal} received, shutting down gracefully`);
+    TrashService.stop();
+    RetentionService.stop();
+
+    server.close(async () => {
+      try {
+        await ProcessingQueueService.getInstance().closeQueues();
+        await closeDatabases();
+        logger.info('Shutdown complete');
+        process.exit(0);
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      }
+    });
+
+    // Force exit if connections do not drain in time
+    setTimeout(() => {
+      logger.error('Forced shutdown after timeout');
+      process.exit(1);
+    }, 10000).unref();
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  return server;
+};
+
+// Start server if this file is executed directly
+if (require.main === module) {
+  startServer().catch((error) => {
+    logger.error('Server startup failed:', error);
+    process.exit(1);
+  });
+}
+
+export default createApp;
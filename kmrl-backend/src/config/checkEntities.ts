@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { extractMentions } from '../utils/entities';
+import logger from '../utils/logger';
+
+// Resolves to src/config from both src/config (ts-node) and dist/config (compiled)
+const CORPUS_PATH = process.env.ENTITY_CORPUS_PATH || path.resolve(__dirname, '../../src/config/entityCorpus.json');
+
+interface CorpusEntry {
+  name: string;
+  text: string;
+  expected: { type: string; value: string }[];
+}
+
+/**
+ * Run the entity extractors over the snippet corpus; returns the number of failing snippets.
+ * Both missed and unexpected entities count as failures.
+ */
+export const checkEntityCorpus = (corpusPath: string = CORPUS_PATH): number => {
+  const corpus: CorpusEntry[] = JSON.parse(fs.readFileSync(corpusPath, 'utf8'));
+  let failures = 0;
+
+  for (const entry of corpus) {
+    const found = extractMentions(entry.text).map((mention) => `${mention.entity_type}:${mention.normalized_value}`);
+    const expected = entry.expected.map((entity) => `${entity.type}:${entity.value}`);
+
+    const missing = expected.filter((key) => !found.includes(key));
+    const unexpected = found.filter((key) => !expected.includes(key));
+
+    if (missing.length > 0 || unexpected.length > 0) {
+      failures += 1;
+      logger.error(`FAIL ${entry.name}: missing [${missing.join(', ')}] unexpected [${unexpected.join(', ')}]`);
+    } else {
+      logger.info(`ok   ${entry.name}`);
+    }
+  }
+
+  logger.info(`${corpus.length - failures}/${corpus.length} snippets passed`);
+  return failures;
+};
+
+// Run the check if this file is executed directly
+if (require.main === module) {
+  try {
+    process.exit(checkEntityCorpus() > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Entity corpus check failed:', error);
+    process.exit(1);
+  }
+}
+
+export default checkEntityCorpus;
@@ -66,12 +66,14 @@ export const elasticsearchClient = new ElasticsearchClient({
 });
 
 // Test Elasticsearch connection
-export const testElasticsearchConnection = async () => {
+export const testElasticsearchConnection = async (): Promise<boolean> => {
   try {
     await elasticsearchClient.ping({ requestTimeout: 3000 });
     logger.info('Connected to Elasticsearch');
+    return true;
   } catch (error) {
     logger.error('Elasticsearch connection error:', error);
+    return false;
   }
 };
 
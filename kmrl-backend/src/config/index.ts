@@ -13,6 +13,7 @@ const config: Config = {
     mongodb: process.env.MONGODB_URI || 'mongodb://localhost:27017/kmrl-docs',
     redis: process.env.REDIS_URL || 'redis://localhost:6379',
     elasticsearch: process.env.ELASTICSEARCH_URL || 'http://localhost:9200',
+    elasticsearchIndex: process.env.ELASTICSEARCH_INDEX || 'kmrl-documents',
   },
   
   firebase: {
@@ -38,6 +39,12 @@ const config: Config = {
     s3Bucket: process.env.AWS_S3_BUCKET || 'kmrl-documents',
     ...(process.env.S3_ENDPOINT && { endpoint: process.env.S3_ENDPOINT }),
   },
+
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL || '900', 10), // 15 minutes
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || 'kmrl-local-storage-secret',
+  },
   
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '20971520', 10), // 20MB
@@ -49,6 +56,11 @@ const config: Config = {
     pythonServiceUrl: process.env.PYTHON_ML_SERVICE_URL || 'http://localhost:8000',
     ocrConfidenceThreshold: parseFloat(process.env.OCR_CONFIDENCE_THRESHOLD || '0.9'),
     classificationConfidenceThreshold: parseFloat(process.env.CLASSIFICATION_CONFIDENCE_THRESHOLD || '0.85'),
+    pdfRasterizerPath: process.env.PDFTOPPM_PATH || 'pdftoppm', // poppler-utils
+    ocrDpi: parseInt(process.env.OCR_DPI || '300', 10),
+    tessdataPath: process.env.TESSDATA_PATH || './tessdata', // eng/mal/hin .traineddata files
+    defaultOcrLanguage: process.env.OCR_DEFAULT_LANGUAGE || 'auto',
+    textClassifierDir: process.env.TEXT_CLASSIFIER_DIR || './classifier-models', // trained offline models
   },
   
   cors: {
@@ -59,6 +71,15 @@ const config: Config = {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   },
+
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeSchedule: process.env.TRASH_PURGE_SCHEDULE || '0 3 * * *', // daily at 03:00
+  },
+
+  retention: {
+    reviewSchedule: process.env.RETENTION_REVIEW_SCHEDULE || '0 2 * * *', // daily at 02:00
+  },
 };
 
 // Validate required environment variables in production
@@ -71,6 +92,10 @@ if (config.nodeEnv === 'production') {
     'GOOGLE_CLIENT_ID',
   ];
   
+  if (config.storage.driver === 'local') {
+    requiredVars.push('STORAGE_SIGNING_SECRET');
+  }
+
   for (const varName of requiredVars) {
     if (!process.env[varName]) {
       throw new Error(`Required environment variable ${varName} is not set`);
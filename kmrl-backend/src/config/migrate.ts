@@ -1,34 +1,283 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
 import { pgPool } from './database';
 import logger from '../utils/logger';
 
-async function runMigration() {
+// Resolves to src/config/migrations from both src/config (ts-node) and dist/config (compiled)
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.resolve(__dirname, '../../src/config/migrations');
+
+// Arbitrary key so concurrent runners never apply migrations at the same time
+const MIGRATION_LOCK_KEY = 724190;
+
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath?: string;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  applied_at?: Date;
+}
+
+// Line endings are normalized so checksums do not depend on the checkout platform
+const checksumOf = (sql: string): string =>
+  crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+/**
+ * Read numbered migration files, ordered by version
+ */
+export const loadMigrations = (directory: string = MIGRATIONS_DIR): Migration[] => {
+  const migrations = new Map<string, Migration>();
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match as unknown as [string, string, string, 'up' | 'down'];
+    const filePath = path.join(directory, file);
+    const existing = migrations.get(version);
+
+    if (existing && existing.name !== name) {
+      throw new Error(`Migration version ${version} is used by both ${existing.name} and ${name}`);
+    }
+
+    const migration = existing || { version, name, upPath: '', checksum: '' };
+    if (direction === 'up') {
+      migration.upPath = filePath;
+      migration.checksum = checksumOf(fs.readFileSync(filePath, 'utf8'));
+    } else {
+      migration.downPath = filePath;
+    }
+    migrations.set(version, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.upPath) {
+      throw new Error(`Migration ${migration.version}_${migration.name} has no up file`);
+    }
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version.localeCompare(b.version));
+};
+
+const ensureLedger = async (client: PoolClient): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(4) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      execution_ms INTEGER,
+      applied_at TIMESTAMP DEFAULT NOW()
+    )
+  `);
+};
+
+const getApplied = async (client: PoolClient): Promise<AppliedMigration[]> => {
+  const result = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+  return result.rows;
+};
+
+/**
+ * Compare migration files with the ledger
+ */
+const computeStatus = (migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] => {
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+  const statuses: MigrationStatus[] = [];
+
+  for (const row of applied) {
+    const migration = byVersion.get(row.version);
+    statuses.push({
+      version: row.version,
+      name: row.name,
+      state: !migration ? 'missing' : migration.checksum !== row.checksum ? 'changed' : 'applied',
+      applied_at: row.applied_at
+    });
+  }
+
+  const appliedVersions = new Set(applied.map((row) => row.version));
+  for (const migration of migrations) {
+    if (!appliedVersions.has(migration.version)) {
+      statuses.push({ version: migration.version, name: migration.name, state: 'pending' });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version.localeCompare(b.version));
+};
+
+// Refuse to run when applied history no longer matches the files on disk
+const assertLedgerIntact = (statuses: MigrationStatus[]): void => {
+  const problems = statuses.filter((status) => status.state === 'changed' || status.state === 'missing');
+  if (problems.length > 0) {
+    const details = problems.map((status) => `${status.version}_${status.name} (${status.state})`).join(', ');
+    throw new Error(`Applied migrations do not match files on disk: ${details}`);
+  }
+};
+
+const withLock = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
   const client = await pgPool.connect();
-  
   try {
-    logger.info('Starting database migration...');
-    
-    // Read the schema file
-    const schemaPath = path.join(__dirname, 'schema.sql');
-    const schema = fs.readFileSync(schemaPath, 'utf8');
-    
-    // Execute the schema
-    await client.query(schema);
-    
-    logger.info('Database migration completed successfully');
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureLedger(client);
+    return await work(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+};
+
+/**
+ * Apply every pending migration, each in its own transaction
+ */
+export const migrateUp = async (): Promise<string[]> => {
+  const migrations = loadMigrations();
+
+  return withLock(async (client) => {
+    const statuses = computeStatus(migrations, await getApplied(client));
+    assertLedgerIntact(statuses);
+
+    const pendingVersions = new Set(statuses.filter((s) => s.state === 'pending').map((s) => s.version));
+    const applied: string[] = [];
+
+    for (const migration of migrations.filter((m) => pendingVersions.has(m.version))) {
+      const startTime = Date.now();
+      const sql = fs.readFileSync(migration.upPath, 'utf8');
+
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+          [migration.version, migration.name, migration.checksum, Date.now() - startTime]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Migration ${migration.version}_${migration.name} failed, rolled back`);
+        throw error;
+      }
+
+      applied.push(`${migration.version}_${migration.name}`);
+      logger.info(`Applied migration ${migration.version}_${migration.name} (${Date.now() - startTime}ms)`);
+    }
+
+    if (applied.length === 0) {
+      logger.info('Database schema is up to date');
+    }
+
+    return applied;
+  });
+};
+
+/**
+ * Revert the most recent `steps` applied migrations
+ */
+export const migrateDown = async (steps: number = 1): Promise<string[]> => {
+  const migrations = loadMigrations();
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+
+  return withLock(async (client) => {
+    const statuses = computeStatus(migrations, await getApplied(client));
+    assertLedgerIntact(statuses);
+
+    const toRevert = statuses
+      .filter((status) => status.state === 'applied')
+      .reverse()
+      .slice(0, steps);
+    const reverted: string[] = [];
+
+    for (const status of toRevert) {
+      const migration = byVersion.get(status.version)!;
+      if (!migration.downPath) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no down file`);
+      }
+
+      const sql = fs.readFileSync(migration.downPath, 'utf8');
+
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Reverting migration ${migration.version}_${migration.name} failed, rolled back`);
+        throw error;
+      }
+
+      reverted.push(`${migration.version}_${migration.name}`);
+      logger.info(`Reverted migration ${migration.version}_${migration.name}`);
+    }
+
+    return reverted;
+  });
+};
+
+/**
+ * Report applied, pending and tampered migrations
+ */
+export const migrationStatus = async (): Promise<MigrationStatus[]> => {
+  const migrations = loadMigrations();
+  return withLock(async (client) => computeStatus(migrations, await getApplied(client)));
+};
+
+async function runMigration(command: string = 'up', args: string[] = []) {
+  try {
+    switch (command) {
+      case 'up':
+        logger.info('Starting database migration...');
+        await migrateUp();
+        logger.info('Database migration completed successfully');
+        break;
+      case 'down': {
+        const steps = args[0] ? parseInt(args[0], 10) : 1;
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error('Usage: migrate down [N] where N is a positive integer');
+        }
+        await migrateDown(steps);
+        break;
+      }
+      case 'status': {
+        const statuses = await migrationStatus();
+        for (const status of statuses) {
+          const appliedAt = status.applied_at ? ` ${new Date(status.applied_at).toISOString()}` : '';
+          logger.info(`${status.version}_${status.name}: ${status.state}${appliedAt}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown migrate command: ${command} (expected up, down or status)`);
+    }
   } catch (error) {
     logger.error('Migration failed:', error);
     throw error;
   } finally {
-    client.release();
     await pgPool.end();
   }
 }
 
 // Run migration if this file is executed directly
 if (require.main === module) {
-  runMigration()
+  const [command, ...args] = process.argv.slice(2);
+
+  runMigration(command, args)
     .then(() => {
       logger.info('Migration process completed');
       process.exit(0);
@@ -39,4 +288,4 @@ if (require.main === module) {
     });
 }
 
-export default runMigration;
\ No newline at end of file
+export default runMigration;
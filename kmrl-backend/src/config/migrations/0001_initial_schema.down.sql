@@ -0,0 +1,13 @@
+-- Migration 0001 rollback: drop the initial schema
+
+DROP TABLE IF EXISTS project_members;
+DROP TABLE IF EXISTS document_classifications;
+DROP TABLE IF EXISTS system_metrics;
+DROP TABLE IF EXISTS document_access_logs;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS processing_jobs;
+DROP TABLE IF EXISTS documents;
+DROP TABLE IF EXISTS projects;
+DROP TABLE IF EXISTS users;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
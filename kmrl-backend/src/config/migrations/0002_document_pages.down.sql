@@ -0,0 +1,3 @@
+-- Migration 0002 rollback: drop per-page text
+
+DROP TABLE IF EXISTS document_pages;
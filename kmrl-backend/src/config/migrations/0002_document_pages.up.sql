@@ -0,0 +1,14 @@
+-- Migration 0002: per-page extracted text and OCR confidence
+
+CREATE TABLE IF NOT EXISTS document_pages (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    page_number INTEGER NOT NULL CHECK (page_number >= 1),
+    text TEXT NOT NULL DEFAULT '',
+    confidence DECIMAL(5,4) CHECK (confidence >= 0 AND confidence <= 1),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('text_layer', 'ocr')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(document_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_pages_document_id ON document_pages(document_id);
@@ -0,0 +1,9 @@
+-- Migration 0003 rollback: back to English-only full-text search
+
+DROP INDEX IF EXISTS idx_documents_search_fts;
+CREATE INDEX IF NOT EXISTS idx_documents_ocr_text_fts ON documents USING gin(to_tsvector('english', ocr_text));
+
+DROP INDEX IF EXISTS idx_documents_language;
+ALTER TABLE documents DROP COLUMN IF EXISTS language;
+ALTER TABLE documents DROP COLUMN IF EXISTS ocr_language;
+ALTER TABLE projects DROP COLUMN IF EXISTS ocr_language;
@@ -0,0 +1,17 @@
+-- Migration 0003: OCR language settings and language-aware full-text search
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS ocr_language VARCHAR(20);
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS ocr_language VARCHAR(20);
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_documents_language ON documents(language);
+
+-- English documents keep stemming; Malayalam, Hindi and unknown text use the 'simple' configuration.
+-- DocumentModel queries must use this exact expression for the index to apply.
+DROP INDEX IF EXISTS idx_documents_ocr_text_fts;
+CREATE INDEX IF NOT EXISTS idx_documents_search_fts ON documents USING gin(
+    to_tsvector(
+        CASE WHEN language IS NULL OR language = 'eng' THEN 'english'::regconfig ELSE 'simple'::regconfig END,
+        COALESCE(ocr_text, '')
+    )
+);
@@ -0,0 +1,6 @@
+-- Migration 0004 rollback: drop OCR confidence and review state
+
+DROP INDEX IF EXISTS idx_documents_ocr_needs_review;
+ALTER TABLE document_pages DROP COLUMN IF EXISTS words;
+ALTER TABLE documents DROP COLUMN IF EXISTS ocr_status;
+ALTER TABLE documents DROP COLUMN IF EXISTS ocr_confidence;
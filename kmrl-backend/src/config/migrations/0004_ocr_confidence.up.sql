@@ -0,0 +1,12 @@
+-- Migration 0004: persisted OCR confidence and review state
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS ocr_confidence DECIMAL(5,4)
+    CHECK (ocr_confidence >= 0 AND ocr_confidence <= 1);
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS ocr_status VARCHAR(20)
+    CHECK (ocr_status IN ('ok', 'needs_review', 'corrected'));
+
+-- Word boxes from Tesseract: [{ text, confidence, bbox: { x0, y0, x1, y1 } }]
+ALTER TABLE document_pages ADD COLUMN IF NOT EXISTS words JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_documents_ocr_needs_review ON documents(created_at)
+    WHERE ocr_status = 'needs_review';
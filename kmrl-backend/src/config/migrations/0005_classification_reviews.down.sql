@@ -0,0 +1,4 @@
+-- Migration 0005 rollback: drop the classification review queue
+
+ALTER TABLE documents DROP COLUMN IF EXISTS classification_status;
+DROP TABLE IF EXISTS classification_reviews;
@@ -0,0 +1,23 @@
+-- Migration 0005: human review of low-confidence classifications
+
+CREATE TABLE IF NOT EXISTS classification_reviews (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    predicted_label VARCHAR(100) NOT NULL,
+    predicted_confidence DECIMAL(5,4) CHECK (predicted_confidence >= 0 AND predicted_confidence <= 1),
+    final_label VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'overridden')),
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- At most one open review per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_classification_reviews_pending_document
+    ON classification_reviews(document_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_classification_reviews_status ON classification_reviews(status, created_at);
+
+-- auto: accepted without review; pending_review: waiting in the queue; reviewed: label set by a reviewer
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS classification_status VARCHAR(20)
+    CHECK (classification_status IN ('auto', 'pending_review', 'reviewed'));
@@ -0,0 +1,9 @@
+-- Migration 0006 rollback: free-text classifications again (mapped labels are kept)
+
+ALTER TABLE classification_reviews DROP CONSTRAINT IF EXISTS fk_classification_reviews_final_label;
+ALTER TABLE classification_reviews DROP CONSTRAINT IF EXISTS fk_classification_reviews_predicted_label;
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS fk_documents_ai_classification;
+
+DROP TRIGGER IF EXISTS update_document_classifications_updated_at ON document_classifications;
+ALTER TABLE document_classifications DROP COLUMN IF EXISTS updated_at;
+ALTER TABLE document_classifications DROP COLUMN IF EXISTS aliases;
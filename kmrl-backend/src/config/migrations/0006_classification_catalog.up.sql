@@ -0,0 +1,59 @@
+-- Migration 0006: tie documents.ai_classification to the classification catalog
+
+ALTER TABLE document_classifications ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE document_classifications ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS update_document_classifications_updated_at ON document_classifications;
+CREATE TRIGGER update_document_classifications_updated_at BEFORE UPDATE ON document_classifications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Catch-all category that unmapped predictions fall back to
+INSERT INTO document_classifications (name, description, color) VALUES
+('Other', 'Miscellaneous documents', '#F7DC6F')
+ON CONFLICT (name) DO NOTHING;
+
+-- Labels emitted by the Python service and the rule-based fallback (lowercase, underscores)
+UPDATE document_classifications SET aliases = ARRAY['contract', 'agreement', 'tender', 'work_order', 'purchase_order'] WHERE name = 'Contract';
+UPDATE document_classifications SET aliases = ARRAY['report', 'progress_report', 'inspection_report', 'minutes'] WHERE name = 'Report';
+UPDATE document_classifications SET aliases = ARRAY['technical', 'specification', 'manual', 'technical_document'] WHERE name = 'Technical';
+UPDATE document_classifications SET aliases = ARRAY['permit', 'license', 'licence', 'clearance', 'approval'] WHERE name = 'Permit';
+UPDATE document_classifications SET aliases = ARRAY['financial', 'invoice', 'bill', 'receipt', 'budget'] WHERE name = 'Financial';
+UPDATE document_classifications SET aliases = ARRAY['drawing', 'technical_drawing', 'blueprint', 'cad', 'layout'] WHERE name = 'Drawing';
+UPDATE document_classifications SET aliases = ARRAY['certificate', 'certification', 'credential'] WHERE name = 'Certificate';
+UPDATE document_classifications SET aliases = ARRAY['other', 'unknown', 'image', 'document', 'spreadsheet', 'misc'] WHERE name = 'Other';
+
+-- Map existing free-text labels onto catalog names before adding the constraints
+UPDATE documents d
+SET ai_classification = c.name
+FROM document_classifications c
+WHERE d.ai_classification IS NOT NULL
+  AND d.ai_classification <> c.name
+  AND (LOWER(d.ai_classification) = LOWER(c.name) OR LOWER(d.ai_classification) = ANY(c.aliases));
+
+UPDATE documents
+SET ai_classification = 'Other'
+WHERE ai_classification IS NOT NULL
+  AND ai_classification NOT IN (SELECT name FROM document_classifications);
+
+UPDATE classification_reviews r
+SET predicted_label = c.name
+FROM document_classifications c
+WHERE r.predicted_label <> c.name
+  AND (LOWER(r.predicted_label) = LOWER(c.name) OR LOWER(r.predicted_label) = ANY(c.aliases));
+
+UPDATE classification_reviews
+SET predicted_label = 'Other'
+WHERE predicted_label NOT IN (SELECT name FROM document_classifications);
+
+UPDATE classification_reviews
+SET final_label = 'Other'
+WHERE final_label IS NOT NULL
+  AND final_label NOT IN (SELECT name FROM document_classifications);
+
+-- Renaming a category carries over to documents and reviews
+ALTER TABLE documents ADD CONSTRAINT fk_documents_ai_classification
+    FOREIGN KEY (ai_classification) REFERENCES document_classifications(name) ON UPDATE CASCADE;
+ALTER TABLE classification_reviews ADD CONSTRAINT fk_classification_reviews_predicted_label
+    FOREIGN KEY (predicted_label) REFERENCES document_classifications(name) ON UPDATE CASCADE;
+ALTER TABLE classification_reviews ADD CONSTRAINT fk_classification_reviews_final_label
+    FOREIGN KEY (final_label) REFERENCES document_classifications(name) ON UPDATE CASCADE;
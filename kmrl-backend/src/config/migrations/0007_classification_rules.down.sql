@@ -0,0 +1,3 @@
+-- Migration 0007 rollback: drop the fallback classification rules
+
+DROP TABLE IF EXISTS classification_rules;
@@ -0,0 +1,79 @@
+-- Migration 0007: declarative rules for the fallback classifier
+
+CREATE TABLE IF NOT EXISTS classification_rules (
+    id SERIAL PRIMARY KEY,
+    classification VARCHAR(100) NOT NULL REFERENCES document_classifications(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('keyword', 'regex', 'filename', 'extension', 'entity')),
+    -- keyword: word or phrase; regex/filename: case-insensitive regular expression;
+    -- extension: file extension without the dot; entity: dates, amounts or project_codes
+    pattern TEXT NOT NULL,
+    weight REAL NOT NULL DEFAULT 1 CHECK (weight > 0),
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_rules_classification ON classification_rules(classification);
+
+DROP TRIGGER IF EXISTS update_classification_rules_updated_at ON classification_rules;
+CREATE TRIGGER update_classification_rules_updated_at BEFORE UPDATE ON classification_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Starter rule set; content signals outweigh the file extension
+INSERT INTO classification_rules (classification, rule_type, pattern, weight, description)
+SELECT v.classification, v.rule_type, v.pattern, v.weight, v.description
+FROM (VALUES
+    ('Contract', 'keyword', 'agreement', 2, NULL),
+    ('Contract', 'keyword', 'contract', 2, NULL),
+    ('Contract', 'keyword', 'tender', 1.5, NULL),
+    ('Contract', 'keyword', 'work order', 1.5, NULL),
+    ('Contract', 'keyword', 'hereinafter', 2, 'Legal drafting'),
+    ('Contract', 'regex', '\bclause\s+\d+', 1, 'Numbered clauses'),
+    ('Contract', 'filename', 'contract|agreement|tender', 3, NULL),
+
+    ('Report', 'keyword', 'report', 1.5, NULL),
+    ('Report', 'keyword', 'findings', 1.5, NULL),
+    ('Report', 'keyword', 'summary', 1, NULL),
+    ('Report', 'keyword', 'progress', 1, NULL),
+    ('Report', 'keyword', 'minutes of meeting', 2, NULL),
+    ('Report', 'filename', 'report|minutes', 3, NULL),
+
+    ('Technical', 'keyword', 'specification', 2, NULL),
+    ('Technical', 'keyword', 'datasheet', 1.5, NULL),
+    ('Technical', 'keyword', 'manual', 1.5, NULL),
+    ('Technical', 'keyword', 'technical', 1, NULL),
+    ('Technical', 'filename', 'spec|manual|datasheet', 2.5, NULL),
+
+    ('Permit', 'keyword', 'permit', 2, NULL),
+    ('Permit', 'keyword', 'licence', 2, NULL),
+    ('Permit', 'keyword', 'license', 2, NULL),
+    ('Permit', 'keyword', 'clearance', 1.5, NULL),
+    ('Permit', 'keyword', 'no objection certificate', 2.5, NULL),
+    ('Permit', 'filename', 'permit|licen[cs]e', 3, NULL),
+
+    ('Financial', 'keyword', 'invoice', 2.5, NULL),
+    ('Financial', 'keyword', 'receipt', 2, NULL),
+    ('Financial', 'keyword', 'bill', 1, NULL),
+    ('Financial', 'keyword', 'gst', 1.5, NULL),
+    ('Financial', 'keyword', 'amount payable', 2, NULL),
+    ('Financial', 'regex', 'invoice\s*(no|number|#)', 2.5, 'Invoice number field'),
+    ('Financial', 'entity', 'amounts', 1.5, 'Currency amounts present'),
+    ('Financial', 'filename', 'invoice|bill|receipt', 3, NULL),
+    ('Financial', 'extension', 'xlsx', 1, NULL),
+    ('Financial', 'extension', 'xls', 1, NULL),
+
+    ('Drawing', 'extension', 'dwg', 4, NULL),
+    ('Drawing', 'extension', 'dxf', 4, NULL),
+    ('Drawing', 'keyword', 'drawing', 1.5, NULL),
+    ('Drawing', 'keyword', 'elevation', 1, NULL),
+    ('Drawing', 'keyword', 'scale', 1, NULL),
+    ('Drawing', 'regex', 'drg\.?\s*no', 2, 'Drawing number field'),
+    ('Drawing', 'filename', 'drawing|dwg|layout|blueprint', 2.5, NULL),
+
+    ('Certificate', 'keyword', 'certificate', 2, NULL),
+    ('Certificate', 'keyword', 'this is to certify', 2.5, NULL),
+    ('Certificate', 'filename', 'cert', 3, NULL)
+) AS v(classification, rule_type, pattern, weight, description)
+WHERE EXISTS (SELECT 1 FROM document_classifications c WHERE c.name = v.classification);
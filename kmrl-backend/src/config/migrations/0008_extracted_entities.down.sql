@@ -0,0 +1,3 @@
+-- Migration 0008 rollback: drop extracted entities
+
+DROP TABLE IF EXISTS extracted_entities;
@@ -0,0 +1,21 @@
+-- Migration 0008: entities extracted from document text
+
+CREATE TABLE IF NOT EXISTS extracted_entities (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    entity_type VARCHAR(30) NOT NULL, -- date, amount, project_code, ...
+    raw_value TEXT NOT NULL,
+    normalized_value TEXT NOT NULL, -- ISO date, decimal amount, upper-case code, ...
+    value_date DATE,
+    value_amount NUMERIC(18, 2),
+    currency VARCHAR(3),
+    page_number INTEGER, -- NULL when the text has no page structure
+    char_offset INTEGER, -- within the page (or the whole text); NULL when not located
+    source VARCHAR(20) NOT NULL DEFAULT 'extractor' CHECK (source IN ('extractor', 'classifier')),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_document ON extracted_entities(document_id);
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_value ON extracted_entities(LOWER(normalized_value));
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_amount ON extracted_entities(currency, value_amount) WHERE value_amount IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_date ON extracted_entities(value_date) WHERE value_date IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Migration 0009 rollback: drop duplicate detection
+
+DROP TABLE IF EXISTS duplicate_dismissals;
+
+DROP INDEX IF EXISTS idx_documents_duplicate_of;
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_duplicate_of_fkey;
+ALTER TABLE documents ADD CONSTRAINT documents_duplicate_of_fkey
+    FOREIGN KEY (duplicate_of) REFERENCES documents(id);
+
+ALTER TABLE documents DROP COLUMN IF EXISTS duplicate_similarity;
+ALTER TABLE documents DROP COLUMN IF EXISTS duplicate_type;
+
+DROP TABLE IF EXISTS document_fingerprints;
@@ -0,0 +1,43 @@
+-- Migration 0009: duplicate and near-duplicate detection
+
+-- Fingerprints computed on ingest. Bands are the LSH buckets of the similarity hashes: two
+-- documents within the near-duplicate distance always share at least one band value.
+CREATE TABLE IF NOT EXISTS document_fingerprints (
+    document_id INTEGER PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+    content_hash CHAR(64), -- SHA-256 of the stored file
+    text_simhash BIGINT, -- 64-bit SimHash of the OCR text
+    text_bands INTEGER[],
+    image_hash BIGINT, -- 64-bit difference hash of images
+    image_bands INTEGER[],
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_fingerprints_content_hash ON document_fingerprints(content_hash);
+CREATE INDEX IF NOT EXISTS idx_document_fingerprints_text_bands ON document_fingerprints USING GIN (text_bands);
+CREATE INDEX IF NOT EXISTS idx_document_fingerprints_image_bands ON document_fingerprints USING GIN (image_bands);
+
+DROP TRIGGER IF EXISTS update_document_fingerprints_updated_at ON document_fingerprints;
+CREATE TRIGGER update_document_fingerprints_updated_at BEFORE UPDATE ON document_fingerprints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- How a flagged document matched its original
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS duplicate_type VARCHAR(20)
+    CHECK (duplicate_type IN ('exact', 'near_text', 'near_image'));
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS duplicate_similarity REAL;
+
+-- Deleting an original must not be blocked by the documents pointing at it
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_duplicate_of_fkey;
+ALTER TABLE documents ADD CONSTRAINT documents_duplicate_of_fkey
+    FOREIGN KEY (duplicate_of) REFERENCES documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_duplicate_of ON documents(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+-- Pairs a reviewer marked as distinct; detection never links them again
+CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+    document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    duplicate_of INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    dismissed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    dismissed_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (document_id, duplicate_of)
+);
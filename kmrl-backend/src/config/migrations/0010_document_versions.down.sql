@@ -0,0 +1,5 @@
+-- Migration 0010 rollback: drop document revisions
+
+DROP TABLE IF EXISTS document_versions;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS current_version;
@@ -0,0 +1,35 @@
+-- Migration 0010: document revisions
+
+-- The documents row always describes the current revision; search indexes only that one
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS document_versions (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    filename VARCHAR(255) NOT NULL,
+    original_filename VARCHAR(255) NOT NULL,
+    file_size BIGINT NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    s3_key VARCHAR(500), -- restored revisions share the key of the revision they restore
+    metadata JSONB DEFAULT '{}', -- file metadata of this revision (size, thumbnail, ...)
+    ocr_text TEXT,
+    change_note TEXT,
+    restored_from INTEGER, -- version number this revision was restored from
+    uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document ON document_versions(document_id);
+
+-- Existing documents start with their current file as revision 1
+INSERT INTO document_versions (
+    document_id, version_number, filename, original_filename, file_size, mime_type,
+    file_path, s3_key, metadata, ocr_text, uploaded_by, created_at
+)
+SELECT id, 1, filename, original_filename, file_size, mime_type,
+       file_path, s3_key, COALESCE(metadata, '{}'), ocr_text, uploaded_by, created_at
+FROM documents
+ON CONFLICT (document_id, version_number) DO NOTHING;
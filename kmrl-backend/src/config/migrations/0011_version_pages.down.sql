@@ -0,0 +1,3 @@
+-- Migration 0011 rollback: drop revision page texts
+
+ALTER TABLE document_versions DROP COLUMN IF EXISTS pages;
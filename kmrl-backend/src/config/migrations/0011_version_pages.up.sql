@@ -0,0 +1,12 @@
+-- Migration 0011: page texts of document revisions, for diffs between revisions
+
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS pages JSONB; -- [{page_number, text}]
+
+UPDATE document_versions v
+SET pages = (
+    SELECT jsonb_agg(jsonb_build_object('page_number', p.page_number, 'text', p.text) ORDER BY p.page_number)
+    FROM document_pages p
+    WHERE p.document_id = v.document_id
+)
+FROM documents d
+WHERE d.id = v.document_id AND d.current_version = v.version_number AND v.pages IS NULL;
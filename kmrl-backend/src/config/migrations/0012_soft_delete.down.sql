@@ -0,0 +1,10 @@
+-- Migration 0012 rollback: drop soft delete columns (trashed rows become visible again)
+
+DROP INDEX IF EXISTS idx_projects_deleted_at;
+DROP INDEX IF EXISTS idx_documents_deleted_at;
+
+ALTER TABLE projects DROP COLUMN IF EXISTS deleted_by;
+ALTER TABLE projects DROP COLUMN IF EXISTS deleted_at;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS deleted_by;
+ALTER TABLE documents DROP COLUMN IF EXISTS deleted_at;
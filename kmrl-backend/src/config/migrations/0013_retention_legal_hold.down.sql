@@ -0,0 +1,21 @@
+-- Migration 0013 rollback: drop retention policies, legal hold and disposition records
+
+DROP TABLE IF EXISTS retention_dispositions;
+
+DROP FUNCTION IF EXISTS metadata_date(TEXT);
+
+DROP INDEX IF EXISTS idx_documents_legal_hold;
+
+ALTER TABLE projects DROP COLUMN IF EXISTS legal_hold_at;
+ALTER TABLE projects DROP COLUMN IF EXISTS legal_hold_by;
+ALTER TABLE projects DROP COLUMN IF EXISTS legal_hold_reason;
+ALTER TABLE projects DROP COLUMN IF EXISTS legal_hold;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS legal_hold_at;
+ALTER TABLE documents DROP COLUMN IF EXISTS legal_hold_by;
+ALTER TABLE documents DROP COLUMN IF EXISTS legal_hold_reason;
+ALTER TABLE documents DROP COLUMN IF EXISTS legal_hold;
+
+ALTER TABLE document_classifications DROP COLUMN IF EXISTS retention_metadata_key;
+ALTER TABLE document_classifications DROP COLUMN IF EXISTS retention_from;
+ALTER TABLE document_classifications DROP COLUMN IF EXISTS retention_years;
@@ -0,0 +1,58 @@
+-- Migration 0013: retention policies per classification, legal hold and disposition records
+
+-- Retention policy: keep documents of a category for N years from their upload or from a date
+-- stored under a metadata key (e.g. a contract's end date); no policy means keep indefinitely
+ALTER TABLE document_classifications ADD COLUMN IF NOT EXISTS retention_years INTEGER CHECK (retention_years > 0);
+ALTER TABLE document_classifications ADD COLUMN IF NOT EXISTS retention_from VARCHAR(20) NOT NULL DEFAULT 'created_at'
+    CHECK (retention_from IN ('created_at', 'metadata'));
+ALTER TABLE document_classifications ADD COLUMN IF NOT EXISTS retention_metadata_key VARCHAR(100);
+
+-- A legal hold blocks deleting, purging and disposing of a document (or of every document in a project)
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS legal_hold_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS legal_hold_at TIMESTAMP;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS legal_hold_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS legal_hold_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_documents_legal_hold ON documents(legal_hold) WHERE legal_hold = true;
+
+-- Metadata dates are free text; anything that is not a valid YYYY-MM-DD prefix yields NULL
+CREATE OR REPLACE FUNCTION metadata_date(value TEXT)
+RETURNS DATE AS $$
+BEGIN
+    IF value IS NULL OR value !~ '^\d{4}-\d{2}-\d{2}' THEN
+        RETURN NULL;
+    END IF;
+    RETURN LEFT(value, 10)::DATE;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Documents past retention wait here for approval; decided rows are the disposition audit trail
+-- and keep a copy of what was disposed of, so document_id is deliberately not a foreign key
+CREATE TABLE IF NOT EXISTS retention_dispositions (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL,
+    original_filename VARCHAR(255) NOT NULL,
+    classification VARCHAR(100),
+    project_id INTEGER,
+    retention_years INTEGER NOT NULL,
+    retention_due_at DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    decided_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP,
+    decision_note TEXT,
+    disposed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_dispositions_document ON retention_dispositions(document_id);
+CREATE INDEX IF NOT EXISTS idx_retention_dispositions_status ON retention_dispositions(status);
+-- At most one open disposition per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_dispositions_pending
+    ON retention_dispositions(document_id) WHERE status = 'pending';
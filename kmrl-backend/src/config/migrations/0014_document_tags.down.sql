@@ -0,0 +1,6 @@
+-- Migration 0014 rollback: drop the tag index (tags keep their canonical form)
+
+DROP INDEX IF EXISTS idx_documents_tags;
+
+ALTER TABLE documents ALTER COLUMN tags DROP NOT NULL;
+ALTER TABLE documents ALTER COLUMN tags DROP DEFAULT;
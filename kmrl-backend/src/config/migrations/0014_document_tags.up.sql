@@ -0,0 +1,19 @@
+-- Migration 0014: document tags
+
+-- Bring existing tags into canonical form (lowercase, hyphens for whitespace, no duplicates)
+UPDATE documents
+SET tags = ARRAY(
+    SELECT DISTINCT regexp_replace(LOWER(BTRIM(t)), '\s+', '-', 'g')
+    FROM unnest(tags) t
+    WHERE BTRIM(t) <> ''
+    ORDER BY 1
+)
+WHERE tags IS NOT NULL;
+
+UPDATE documents SET tags = '{}' WHERE tags IS NULL;
+
+ALTER TABLE documents ALTER COLUMN tags SET DEFAULT '{}';
+ALTER TABLE documents ALTER COLUMN tags SET NOT NULL;
+
+-- Serves tag filters (&& for any, @> for all) and tag lookups for renames
+CREATE INDEX IF NOT EXISTS idx_documents_tags ON documents USING GIN (tags);
@@ -0,0 +1,3 @@
+-- Migration 0015 rollback: drop the legal hold audit trail
+
+DROP TABLE IF EXISTS legal_hold_events;
@@ -0,0 +1,29 @@
+-- Migration 0015: legal hold audit trail
+
+-- Every hold placed or lifted on a document or project. The legal_hold_* columns only describe
+-- the current hold; these rows keep the history, and outlive purged documents and projects,
+-- so the ids are deliberately not foreign keys
+CREATE TABLE IF NOT EXISTS legal_hold_events (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER,
+    project_id INTEGER,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('placed', 'lifted')),
+    reason TEXT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CHECK ((document_id IS NULL) <> (project_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_hold_events_document ON legal_hold_events(document_id) WHERE document_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_legal_hold_events_project ON legal_hold_events(project_id) WHERE project_id IS NOT NULL;
+
+-- Holds already in place are carried over as their first event
+INSERT INTO legal_hold_events (document_id, action, reason, user_id, created_at)
+SELECT id, 'placed', legal_hold_reason, legal_hold_by, COALESCE(legal_hold_at, NOW())
+FROM documents
+WHERE legal_hold = true;
+
+INSERT INTO legal_hold_events (project_id, action, reason, user_id, created_at)
+SELECT id, 'placed', legal_hold_reason, legal_hold_by, COALESCE(legal_hold_at, NOW())
+FROM projects
+WHERE legal_hold = true;
@@ -0,0 +1,34 @@
+import { pgPool } from './database';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import logger from '../utils/logger';
+
+async function runReindex() {
+  try {
+    logger.info('Starting full Elasticsearch reindex...');
+
+    const result = await ElasticsearchService.getInstance().reindexAll();
+
+    logger.info(`Reindex completed into ${result.index}: ${result.indexed} indexed, ${result.failed} failed`);
+    return result;
+  } catch (error) {
+    logger.error('Reindex failed:', error);
+    throw error;
+  } finally {
+    await pgPool.end();
+  }
+}
+
+// Run reindex if this file is executed directly
+if (require.main === module) {
+  runReindex()
+    .then(() => {
+      logger.info('Reindex process completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Reindex process failed:', error);
+      process.exit(1);
+    });
+}
+
+export default runReindex;
@@ -0,0 +1,316 @@
+import path from 'path';
+import { PoolClient } from 'pg';
+import { pgPool } from './database';
+import { DocumentVersionModel } from '../models/DocumentVersion';
+import logger from '../utils/logger';
+
+export interface SeedOptions {
+  seed: number;
+  documents: number;
+  // Reference date that synthetic timestamps are generated backwards from
+  anchorDate: Date;
+}
+
+const DEFAULT_OPTIONS: SeedOptions = {
+  seed: 42,
+  documents: 300,
+  anchorDate: new Date('2025-06-30T00:00:00Z')
+};
+
+const SEED_USERS = [
+  { email: 'admin@kmrl.demo', firebase_uid: 'seed-admin', role: 'admin', first_name: 'System', last_name: 'Administrator' },
+  { email: 'manager@kmrl.demo', firebase_uid: 'seed-manager', role: 'manager', first_name: 'Priya', last_name: 'Nair' },
+  { email: 'engineer@kmrl.demo', firebase_uid: 'seed-user', role: 'user', first_name: 'Arjun', last_name: 'Menon' }
+];
+
+// Mirrors the projects shown in the frontend ProjectOverview
+const SEED_PROJECTS = [
+  {
+    name: 'Kochi Metro Phase II',
+    description: 'Construction of the Phase II corridor from JLN Stadium to Infopark',
+    progress: 78,
+    team_size: 24,
+    start_date: '2024-01-01',
+    end_date: '2025-12-31'
+  },
+  {
+    name: 'Feeder Bus Integration',
+    description: 'Design of feeder bus routes and fare integration with metro stations',
+    progress: 45,
+    team_size: 12,
+    start_date: '2024-03-01',
+    end_date: '2025-06-30'
+  },
+  {
+    name: 'Digital Ticketing System',
+    description: 'Implementation of QR and open-loop card ticketing across all stations',
+    progress: 92,
+    team_size: 8,
+    start_date: '2023-09-01',
+    end_date: '2024-03-31'
+  },
+  {
+    name: 'Station Accessibility Upgrade',
+    description: 'Lifts, tactile paving and ramps for universal access at existing stations',
+    progress: 33,
+    team_size: 15,
+    start_date: '2024-05-01',
+    end_date: '2024-11-30'
+  }
+];
+
+const FALLBACK_CLASSIFICATIONS = ['Contract', 'Report', 'Technical', 'Permit', 'Financial', 'Drawing', 'Certificate', 'Other'];
+
+// Filename stems and OCR phrases per classification
+const CLASSIFICATION_TEMPLATES: Record<string, { stems: string[]; phrases: string[]; extensions: string[] }> = {
+  Contract: {
+    stems: ['civil_works_contract', 'service_agreement', 'supply_contract', 'maintenance_agreement'],
+    phrases: ['This agreement is entered into between Kochi Metro Rail Limited and', 'the contractor shall complete the works within', 'liquidated damages at the rate of'],
+    extensions: ['pdf', 'docx']
+  },
+  Report: {
+    stems: ['monthly_progress_report', 'safety_audit_report', 'ridership_report', 'inspection_report'],
+    phrases: ['Summary of progress for the reporting period', 'observations and recommendations', 'cumulative physical progress stands at'],
+    extensions: ['pdf', 'docx']
+  },
+  Technical: {
+    stems: ['track_design_specification', 'signalling_specification', 'viaduct_design_basis', 'traction_power_study'],
+    phrases: ['The design shall conform to', 'technical specification for', 'load combinations considered include'],
+    extensions: ['pdf', 'docx']
+  },
+  Permit: {
+    stems: ['environmental_clearance', 'building_permit', 'tree_felling_permission', 'road_cutting_permit'],
+    phrases: ['Permission is hereby granted to', 'subject to the following conditions', 'Government of Kerala order no.'],
+    extensions: ['pdf', 'jpg']
+  },
+  Financial: {
+    stems: ['invoice', 'running_account_bill', 'payment_certificate', 'budget_estimate'],
+    phrases: ['Total amount payable', 'GST at 18% on the above', 'bill for the period ending'],
+    extensions: ['pdf', 'xlsx']
+  },
+  Drawing: {
+    stems: ['station_layout', 'general_arrangement_drawing', 'pier_reinforcement_detail', 'depot_plan'],
+    phrases: ['Drawing no.', 'all dimensions are in millimetres', 'revision issued for construction'],
+    extensions: ['pdf', 'dwg', 'png']
+  },
+  Certificate: {
+    stems: ['completion_certificate', 'fitness_certificate', 'test_certificate', 'quality_certificate'],
+    phrases: ['This is to certify that', 'has been inspected and found satisfactory', 'valid until'],
+    extensions: ['pdf', 'jpg']
+  },
+  Other: {
+    stems: ['meeting_minutes', 'correspondence', 'circular', 'site_photo'],
+    phrases: ['Minutes of the meeting held on', 'Reference is invited to', 'for information and necessary action'],
+    extensions: ['pdf', 'docx', 'jpg']
+  }
+};
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  dwg: 'application/acad'
+};
+
+/**
+ * Small deterministic PRNG (mulberry32) so the same seed always yields the same data
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number): number => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)]!
+  };
+};
+
+const seedUsers = async (client: PoolClient): Promise<Map<string, number>> => {
+  const userIds = new Map<string, number>();
+
+  for (const user of SEED_USERS) {
+    const result = await client.query(
+      `INSERT INTO users (email, firebase_uid, role, first_name, last_name, provider)
+       VALUES ($1, $2, $3, $4, $5, 'email')
+       ON CONFLICT (email) DO UPDATE SET role = EXCLUDED.role, first_name = EXCLUDED.first_name,
+         last_name = EXCLUDED.last_name, is_active = true
+       RETURNING id`,
+      [user.email, user.firebase_uid, user.role, user.first_name, user.last_name]
+    );
+    userIds.set(user.role, result.rows[0].id);
+  }
+
+  return userIds;
+};
+
+const seedProjects = async (client: PoolClient, userIds: Map<string, number>): Promise<{ id: number; progress: number }[]> => {
+  const projects = [];
+
+  for (const project of SEED_PROJECTS) {
+    const existing = await client.query('SELECT id FROM projects WHERE name = $1 LIMIT 1', [project.name]);
+    const values = [
+      project.name, project.description, project.progress, project.team_size,
+      project.start_date, project.end_date, userIds.get('manager')
+    ];
+
+    const result = existing.rows[0]
+      ? await client.query(
+          `UPDATE projects SET name = $1, description = $2, status = 'active', progress = $3, team_size = $4,
+             start_date = $5, end_date = $6, created_by = $7
+           WHERE id = $8 RETURNING id`,
+          [...values, existing.rows[0].id]
+        )
+      : await client.query(
+          `INSERT INTO projects (name, description, status, progress, team_size, start_date, end_date, created_by)
+           VALUES ($1, $2, 'active', $3, $4, $5, $6, $7) RETURNING id`,
+          values
+        );
+
+    const projectId = result.rows[0].id;
+    const members: [string, string][] = [['manager', 'owner'], ['user', 'member']];
+
+    for (const [role, memberRole] of members) {
+      await client.query(
+        `INSERT INTO project_members (project_id, user_id, role) VALUES ($1, $2, $3)
+         ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role`,
+        [projectId, userIds.get(role), memberRole]
+      );
+    }
+
+    projects.push({ id: projectId, progress: project.progress });
+  }
+
+  return projects;
+};
+
+const getClassifications = async (client: PoolClient): Promise<string[]> => {
+  const result = await client.query('SELECT name FROM document_classifications WHERE is_active = true ORDER BY name');
+  return result.rows.length > 0 ? result.rows.map((row) => row.name) : FALLBACK_CLASSIFICATIONS;
+};
+
+const seedDocuments = async (
+  client: PoolClient,
+  options: SeedOptions,
+  userIds: Map<string, number>,
+  projects: { id: number; progress: number }[]
+): Promise<number> => {
+  const random = createRandom(options.seed);
+  const classifications = await getClassifications(client);
+  const uploaders = [...userIds.values()];
+
+  // Replace documents from any previous seed run
+  await client.query(`DELETE FROM documents WHERE metadata->>'seeded' = 'true'`);
+
+  for (let i = 1; i <= options.documents; i++) {
+    const project = random.pick(projects);
+    const classification = random.pick(classifications);
+    const template = CLASSIFICATION_TEMPLATES[classification] || CLASSIFICATION_TEMPLATES.Other!;
+    const extension = random.pick(template.extensions);
+    const stem = random.pick(template.stems);
+    const filename = `seed_${options.seed}_${i.toString().padStart(4, '0')}.${extension}`;
+
+    // Completion rate roughly follows project progress
+    const roll = random.next() * 100;
+    const status = roll < project.progress ? 'completed' : roll < project.progress + 10 ? 'processing' : roll < 97 ? 'pending' : 'failed';
+    const isCompleted = status === 'completed';
+
+    const createdAt = new Date(options.anchorDate.getTime() - random.int(0, 180 * 24 * 60) * 60 * 1000);
+    const ocrText = [random.pick(template.phrases), `Ref KM-${createdAt.getUTCFullYear()}-${random.int(1, 999).toString().padStart(3, '0')}`, random.pick(template.phrases)].join('. ');
+
+    const inserted = await client.query(
+      `INSERT INTO documents (
+         filename, original_filename, file_size, mime_type, file_path, project_id, uploaded_by, status,
+         ai_classification, confidence_score, processing_time, ocr_text, metadata, tags, created_at, processed_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       RETURNING id`,
+      [
+        filename,
+        `${stem}_${i}.${extension}`,
+        random.int(20 * 1024, 15 * 1024 * 1024),
+        MIME_TYPES[extension] || 'application/octet-stream',
+        path.join('uploads', 'seed', filename),
+        project.id,
+        random.pick(uploaders),
+        status,
+        isCompleted ? classification : null,
+        isCompleted ? Number((0.6 + random.next() * 0.4).toFixed(4)) : null,
+        isCompleted ? random.int(800, 15000) : null,
+        isCompleted ? ocrText : null,
+        JSON.stringify({ seeded: true, seed: options.seed }),
+        [classification.toLowerCase()],
+        createdAt,
+        isCompleted ? new Date(createdAt.getTime() + 60 * 1000) : null
+      ]
+    );
+    // Uploads always start with their first revision recorded
+    await DocumentVersionModel.recordCurrent(client, inserted.rows[0].id);
+  }
+
+  return options.documents;
+};
+
+/**
+ * Populate users, projects and synthetic documents for development and demos
+ */
+export const seedDatabase = async (overrides: Partial<SeedOptions> = {}): Promise<void> => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const client = await pgPool.connect();
+
+  try {
+    logger.info(`Seeding database (seed=${options.seed}, documents=${options.documents})...`);
+    await client.query('BEGIN');
+
+    const userIds = await seedUsers(client);
+    const projects = await seedProjects(client, userIds);
+    const documentCount = await seedDocuments(client, options, userIds, projects);
+
+    await client.query('COMMIT');
+    logger.info(`Seeded ${userIds.size} users, ${projects.length} projects and ${documentCount} documents`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Seeding failed:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Accepts --seed=N, --documents=N and --anchor=YYYY-MM-DD (SEED_VALUE is also honoured)
+const parseArgs = (argv: string[]): Partial<SeedOptions> => {
+  const options: Partial<SeedOptions> = {};
+  const args = new Map(argv.map((arg) => arg.replace(/^--/, '').split('=') as [string, string]));
+
+  const seed = args.get('seed') || process.env.SEED_VALUE;
+  if (seed) options.seed = parseInt(seed, 10);
+  if (args.get('documents')) options.documents = parseInt(args.get('documents')!, 10);
+  if (args.get('anchor')) options.anchorDate = new Date(args.get('anchor')!);
+
+  return options;
+};
+
+// Run seeder if this file is executed directly
+if (require.main === module) {
+  seedDatabase(parseArgs(process.argv.slice(2)))
+    .then(() => pgPool.end())
+    .then(() => {
+      logger.info('Seed process completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Seed process failed:', error);
+      process.exit(1);
+    });
+}
+
+export default seedDatabase;
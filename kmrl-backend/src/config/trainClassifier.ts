@@ -0,0 +1,132 @@
+import { pgPool } from './database';
+import { ClassificationReviewModel } from '../models/ClassificationReview';
+import {
+  ClassifierMetrics,
+  TextClassifierStore,
+  TrainingSample,
+  evaluateTextClassifier,
+  splitSamples,
+  trainTextClassifier
+} from '../services/TextClassifier';
+import logger from '../utils/logger';
+
+interface TrainCommandOptions {
+  // Labels with fewer reviewed documents are left out of the model
+  minPerClass: number;
+  holdout: number;
+  minDocumentFrequency: number;
+  activate: boolean;
+}
+
+const DEFAULT_OPTIONS: TrainCommandOptions = {
+  minPerClass: 5,
+  holdout: 0.2,
+  minDocumentFrequency: 2,
+  activate: true
+};
+
+const logMetrics = (metrics: ClassifierMetrics): void => {
+  logger.info(`Held-out accuracy: ${metrics.accuracy} over ${metrics.sample_count} documents`);
+  for (const [label, classMetrics] of Object.entries(metrics.per_class)) {
+    logger.info(
+      `  ${label}: precision=${classMetrics.precision} recall=${classMetrics.recall} ` +
+      `f1=${classMetrics.f1} support=${classMetrics.support}`
+    );
+  }
+
+  const { labels, matrix } = metrics.confusion_matrix;
+  logger.info(`Confusion matrix (rows: actual, columns: predicted) ${labels.join(' | ')}`);
+  matrix.forEach((row, position) => logger.info(`  ${labels[position]}: ${row.join(' ')}`));
+};
+
+/**
+ * Train the offline classifier on reviewed documents, evaluate it on a held-out split,
+ * then refit on every sample and save it as a new version
+ */
+export const trainClassifier = async (overrides: Partial<TrainCommandOptions> = {}): Promise<string> => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const store = new TextClassifierStore();
+
+  const rows = await ClassificationReviewModel.getTrainingSamples();
+  const perLabel = new Map<string, number>();
+  rows.forEach((row) => perLabel.set(row.label, (perLabel.get(row.label) || 0) + 1));
+
+  const skipped = [...perLabel.entries()].filter(([, count]) => count < options.minPerClass);
+  if (skipped.length > 0) {
+    logger.warn(`Skipping labels below ${options.minPerClass} samples: ${skipped.map(([label, count]) => `${label} (${count})`).join(', ')}`);
+  }
+
+  const samples: TrainingSample[] = rows
+    .filter((row) => (perLabel.get(row.label) || 0) >= options.minPerClass)
+    .map((row) => ({ text: row.text, label: row.label }));
+
+  logger.info(`Training text classifier on ${samples.length} reviewed documents...`);
+
+  const trainOptions = { minDocumentFrequency: options.minDocumentFrequency };
+  const { train, test } = splitSamples(samples, options.holdout);
+
+  let metrics: ClassifierMetrics | undefined;
+  if (test.length > 0) {
+    metrics = evaluateTextClassifier(trainTextClassifier(train, trainOptions), test);
+    logMetrics(metrics);
+  } else {
+    logger.warn('No held-out samples; the model is saved without evaluation metrics');
+  }
+
+  const model = trainTextClassifier(samples, trainOptions);
+  if (metrics) {
+    model.metrics = metrics;
+  }
+
+  const modelPath = store.save(model);
+  logger.info(`Saved text classifier ${model.version} (${model.vocabulary.length} terms) to ${modelPath}`);
+
+  if (options.activate) {
+    store.activate(model.version);
+    logger.info(`Activated text classifier ${model.version}`);
+  }
+
+  return model.version;
+};
+
+// Accepts --min-per-class=N, --holdout=R, --min-df=N and --no-activate;
+// --activate=<version> switches to an existing version without training
+const parseArgs = (argv: string[]): { options: Partial<TrainCommandOptions>; activateVersion?: string } => {
+  const options: Partial<TrainCommandOptions> = {};
+  const args = new Map(argv.map((arg) => arg.replace(/^--/, '').split('=') as [string, string]));
+
+  if (args.get('min-per-class')) options.minPerClass = parseInt(args.get('min-per-class')!, 10);
+  if (args.get('holdout')) options.holdout = parseFloat(args.get('holdout')!);
+  if (args.get('min-df')) options.minDocumentFrequency = parseInt(args.get('min-df')!, 10);
+  if (args.has('no-activate')) options.activate = false;
+
+  const activateVersion = args.get('activate');
+  return activateVersion ? { options, activateVersion } : { options };
+};
+
+// Run training if this file is executed directly
+if (require.main === module) {
+  const { options, activateVersion } = parseArgs(process.argv.slice(2));
+
+  const run = async (): Promise<void> => {
+    if (activateVersion) {
+      new TextClassifierStore().activate(activateVersion);
+      logger.info(`Activated text classifier ${activateVersion}`);
+      return;
+    }
+    await trainClassifier(options);
+  };
+
+  run()
+    .then(() => pgPool.end())
+    .then(() => {
+      logger.info('Classifier training process completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Classifier training process failed:', error);
+      process.exit(1);
+    });
+}
+
+export default trainClassifier;
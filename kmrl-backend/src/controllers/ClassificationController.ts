@@ -0,0 +1,265 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { DocumentClassificationModel } from '../models/DocumentClassification';
+import { ClassificationCatalog, FALLBACK_CLASSIFICATION } from '../services/ClassificationCatalog';
+import { RuleClassifier } from '../services/RuleClassifier';
+import logger from '../utils/logger';
+import { APIResponse, DocumentClassification } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+// Postgres error codes surfaced as 409 responses
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const pgErrorCode = (error: unknown): string | undefined => (error as { code?: string }).code;
+
+const CATALOG_FIELDS: (keyof DocumentClassification)[] = [
+  'name', 'description', 'color', 'aliases', 'is_active',
+  'retention_years', 'retention_from', 'retention_metadata_key'
+];
+
+// A policy counting from a metadata date needs to know which metadata key holds the date
+const missingRetentionKey = (data: Partial<DocumentClassification>, existing?: DocumentClassification): boolean => {
+  const retentionFrom = data.retention_from ?? existing?.retention_from;
+  const metadataKey = data.retention_metadata_key !== undefined ? data.retention_metadata_key : existing?.retention_metadata_key;
+  return retentionFrom === 'metadata' && !metadataKey;
+};
+
+export class ClassificationController {
+  // Validation for catalog listing
+  static listValidation = [
+    query('include_inactive').optional().isBoolean().toBoolean().withMessage('include_inactive must be a boolean')
+  ];
+
+  // Validation for routes addressing a single category
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Classification ID must be a positive integer')
+  ];
+
+  // Validation for category creation
+  static createValidation = [
+    body('name').trim().notEmpty().isLength({ max: 100 }).withMessage('Name is required (max 100 characters)'),
+    body('description').optional().trim(),
+    body('color').optional().matches(/^#[0-9A-Fa-f]{6}$/).withMessage('Color must be a hex code such as #FF6B6B'),
+    body('aliases').optional().isArray().withMessage('Aliases must be an array of strings'),
+    body('aliases.*').isString().trim().toLowerCase().notEmpty().withMessage('Aliases must be non-empty strings'),
+    body('is_active').optional().isBoolean().toBoolean().withMessage('is_active must be a boolean'),
+    body('retention_years').optional({ nullable: true }).isInt({ min: 1, max: 200 }).toInt().withMessage('Retention must be between 1 and 200 years, or null to keep indefinitely'),
+    body('retention_from').optional().isIn(['created_at', 'metadata']).withMessage('Retention must count from created_at or metadata'),
+    body('retention_metadata_key').optional({ nullable: true }).isString().trim().matches(/^[A-Za-z0-9_.-]{1,100}$/).withMessage('Retention metadata key must be a metadata field name')
+  ];
+
+  // Validation for category updates
+  static updateValidation = [
+    ...ClassificationController.idValidation,
+    body('name').optional().trim().notEmpty().isLength({ max: 100 }).withMessage('Name must not be empty (max 100 characters)'),
+    ...ClassificationController.createValidation.slice(1)
+  ];
+
+  /**
+   * List catalog categories with their document counts
+   */
+  static async listClassifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Inactive categories are only visible to admins
+      const includeInactive = Boolean(req.query.include_inactive) && req.user.role === 'admin';
+      const classifications = await DocumentClassificationModel.getAll(includeInactive);
+
+      res.status(200).json({
+        success: true,
+        data: classifications,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List classifications error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list classifications',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Add a category to the catalog
+   */
+  static async createClassification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (missingRetentionKey(req.body)) {
+        res.status(400).json({
+          success: false,
+          error: 'retention_metadata_key is required when retention counts from a metadata date',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const classification = await DocumentClassificationModel.create(req.body);
+      ClassificationCatalog.invalidate();
+
+      res.status(201).json({
+        success: true,
+        data: classification,
+        message: 'Classification created successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification ${classification.name} created by user: ${req.user.email}`);
+    } catch (error) {
+      if (pgErrorCode(error) === UNIQUE_VIOLATION) {
+        res.status(409).json({
+          success: false,
+          error: 'A classification with this name already exists',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      logger.error('Create classification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create classification',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Update a category; renaming relabels every document using it
+   */
+  static async updateClassification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const classificationId = Number(req.params.id);
+      const existing = await DocumentClassificationModel.findById(classificationId);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Classification not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const updateData: Partial<DocumentClassification> = {};
+      for (const field of CATALOG_FIELDS) {
+        if (req.body[field] !== undefined) {
+          (updateData as Record<string, unknown>)[field] = req.body[field];
+        }
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (missingRetentionKey(updateData, existing)) {
+        res.status(400).json({
+          success: false,
+          error: 'retention_metadata_key is required when retention counts from a metadata date',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // Unmatched predictions always need somewhere to go
+      if (existing.name === FALLBACK_CLASSIFICATION && (updateData.name !== undefined || updateData.is_active === false)) {
+        res.status(409).json({
+          success: false,
+          error: `The ${FALLBACK_CLASSIFICATION} classification cannot be renamed or deactivated`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const classification = await DocumentClassificationModel.update(classificationId, updateData);
+      ClassificationCatalog.invalidate();
+      RuleClassifier.invalidate();
+
+      res.status(200).json({
+        success: true,
+        data: classification,
+        message: 'Classification updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification ${classificationId} updated by user: ${req.user.email}`);
+    } catch (error) {
+      if (pgErrorCode(error) === UNIQUE_VIOLATION) {
+        res.status(409).json({
+          success: false,
+          error: 'A classification with this name already exists',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      logger.error('Update classification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update classification',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Remove an unused category (deactivate categories that documents still use)
+   */
+  static async deleteClassification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const classificationId = Number(req.params.id);
+      const existing = await DocumentClassificationModel.findById(classificationId);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Classification not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (existing.name === FALLBACK_CLASSIFICATION) {
+        res.status(409).json({
+          success: false,
+          error: `The ${FALLBACK_CLASSIFICATION} classification cannot be deleted`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentClassificationModel.delete(classificationId);
+      ClassificationCatalog.invalidate();
+      RuleClassifier.invalidate();
+
+      res.status(200).json({
+        success: true,
+        message: 'Classification deleted successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification ${existing.name} deleted by user: ${req.user.email}`);
+    } catch (error) {
+      if (pgErrorCode(error) === FOREIGN_KEY_VIOLATION) {
+        res.status(409).json({
+          success: false,
+          error: 'Classification is still used by documents; deactivate it instead',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      logger.error('Delete classification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete classification',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { ClassificationReviewModel } from '../models/ClassificationReview';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import { ClassificationCatalog } from '../services/ClassificationCatalog';
+import logger from '../utils/logger';
+import { APIResponse, ClassificationReview } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export class ClassificationReviewController {
+  // Validation for review listing
+  static listValidation = [
+    query('status')
+      .optional()
+      .isIn(['pending', 'accepted', 'overridden'])
+      .withMessage('Status must be pending, accepted or overridden'),
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100')
+  ];
+
+  // Validation for accepting a prediction
+  static acceptValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Review ID must be a positive integer'),
+    body('notes').optional().trim().isLength({ max: 1000 }).withMessage('Notes must be at most 1000 characters')
+  ];
+
+  // Validation for overriding a prediction
+  static overrideValidation = [
+    ...ClassificationReviewController.acceptValidation,
+    body('label')
+      .trim()
+      .notEmpty()
+      .bail()
+      .custom(async (label: string) => {
+        if (!(await ClassificationCatalog.isActiveName(label))) {
+          throw new Error('Label must be an active classification');
+        }
+        return true;
+      })
+  ];
+
+  /**
+   * List classification reviews, pending ones by default
+   */
+  static async listReviews(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const status = (req.query.status as ClassificationReview['status']) || 'pending';
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const { reviews, total } = await ClassificationReviewModel.getReviews(status, page, limit, req.user);
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          reviews,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List classification reviews error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list classification reviews',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Measured classifier accuracy from reviewed predictions
+   */
+  static async getStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const stats = await ClassificationReviewModel.getStats();
+
+      res.status(200).json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get classification review stats error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get classification review statistics',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Confirm the predicted label
+   */
+  static async acceptReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await ClassificationReviewController.resolveReview(req, res, null);
+  }
+
+  /**
+   * Replace the predicted label with the reviewer's choice
+   */
+  static async overrideReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await ClassificationReviewController.resolveReview(req, res, String(req.body.label));
+  }
+
+  // A null label accepts the prediction as-is
+  private static async resolveReview(req: AuthenticatedRequest, res: Response, label: string | null): Promise<void> {
+    try {
+      const reviewId = Number(req.params.id);
+      const review = await ClassificationReviewModel.findById(reviewId, req.user);
+
+      if (!review) {
+        res.status(404).json({
+          success: false,
+          error: 'Classification review not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const resolved = await ClassificationReviewModel.resolve(
+        reviewId,
+        label || review.predicted_label,
+        req.user.id,
+        req.body.notes
+      );
+
+      if (!resolved) {
+        res.status(409).json({
+          success: false,
+          error: 'Classification review has already been resolved',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await ProcessingQueueService.getInstance().addIndexingJob({
+        documentId: resolved.document_id,
+        filePath: '',
+        jobType: 'indexing'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: resolved,
+        message: `Classification ${resolved.status}`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification review ${reviewId} ${resolved.status} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Resolve classification review error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resolve classification review',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { ClassificationRuleModel } from '../models/ClassificationRule';
+import { AIService } from '../services/AIService';
+import { ClassificationCatalog } from '../services/ClassificationCatalog';
+import { RuleClassifier } from '../services/RuleClassifier';
+import logger from '../utils/logger';
+import { APIResponse, ClassificationRule } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+const RULE_TYPES: ClassificationRule['rule_type'][] = ['keyword', 'regex', 'filename', 'extension', 'entity'];
+
+const RULE_FIELDS: (keyof ClassificationRule)[] = ['classification', 'rule_type', 'pattern', 'weight', 'description', 'is_active'];
+
+// Rules may only vote for categories the catalog knows
+const activeClassification = async (classification: string): Promise<boolean> => {
+  if (!(await ClassificationCatalog.isActiveName(classification))) {
+    throw new Error('Classification must be an active catalog category');
+  }
+  return true;
+};
+
+export class ClassificationRuleController {
+  // Validation for rule listing
+  static listValidation = [
+    query('classification').optional().trim(),
+    query('rule_type').optional().isIn(RULE_TYPES).withMessage(`Rule type must be one of: ${RULE_TYPES.join(', ')}`),
+    query('is_active').optional().isBoolean().toBoolean().withMessage('is_active must be a boolean')
+  ];
+
+  // Validation for routes addressing a single rule
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Rule ID must be a positive integer')
+  ];
+
+  // Validation for rule creation
+  static createValidation = [
+    body('classification').trim().notEmpty().bail().custom(activeClassification),
+    body('rule_type').isIn(RULE_TYPES).withMessage(`Rule type must be one of: ${RULE_TYPES.join(', ')}`),
+    body('pattern').isString().notEmpty().isLength({ max: 500 }).withMessage('Pattern is required (max 500 characters)'),
+    body('weight').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Weight must be greater than 0 and at most 100'),
+    body('description').optional().trim(),
+    body('is_active').optional().isBoolean().toBoolean().withMessage('is_active must be a boolean')
+  ];
+
+  // Validation for rule updates
+  static updateValidation = [
+    ...ClassificationRuleController.idValidation,
+    body('classification').optional().trim().notEmpty().bail().custom(activeClassification),
+    body('rule_type').optional().isIn(RULE_TYPES).withMessage(`Rule type must be one of: ${RULE_TYPES.join(', ')}`),
+    body('pattern').optional().isString().notEmpty().isLength({ max: 500 }).withMessage('Pattern must not be empty (max 500 characters)'),
+    ...ClassificationRuleController.createValidation.slice(3)
+  ];
+
+  // Validation for dry runs
+  static dryRunValidation = [
+    body('text').isString().isLength({ max: 1000000 }).withMessage('Text is required (max 1,000,000 characters)'),
+    body('filename').optional().isString().trim()
+  ];
+
+  /**
+   * List classification rules
+   */
+  static async listRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const rules = await ClassificationRuleModel.getAll({
+        ...(req.query.classification && { classification: String(req.query.classification) }),
+        ...(req.query.rule_type && { rule_type: req.query.rule_type as ClassificationRule['rule_type'] }),
+        ...(req.query.is_active !== undefined && { is_active: Boolean(req.query.is_active) })
+      });
+
+      res.status(200).json({
+        success: true,
+        data: rules,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List classification rules error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list classification rules',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Add a classification rule
+   */
+  static async createRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const patternError = RuleClassifier.validatePattern(req.body.rule_type, req.body.pattern);
+      if (patternError) {
+        res.status(400).json({
+          success: false,
+          error: patternError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const rule = await ClassificationRuleModel.create({ ...req.body, created_by: req.user.id });
+      RuleClassifier.invalidate();
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Classification rule created successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification rule ${rule.id} created by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Create classification rule error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create classification rule',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Update a classification rule
+   */
+  static async updateRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const ruleId = Number(req.params.id);
+      const existing = await ClassificationRuleModel.findById(ruleId);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Classification rule not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const updateData: Partial<ClassificationRule> = {};
+      for (const field of RULE_FIELDS) {
+        if (req.body[field] !== undefined) {
+          (updateData as Record<string, unknown>)[field] = req.body[field];
+        }
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // The pattern has to fit the rule type after the update, whichever of the two changed
+      const patternError = RuleClassifier.validatePattern(
+        updateData.rule_type || existing.rule_type,
+        updateData.pattern || existing.pattern
+      );
+      if (patternError) {
+        res.status(400).json({
+          success: false,
+          error: patternError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const rule = await ClassificationRuleModel.update(ruleId, updateData);
+      RuleClassifier.invalidate();
+
+      res.status(200).json({
+        success: true,
+        data: rule,
+        message: 'Classification rule updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification rule ${ruleId} updated by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Update classification rule error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update classification rule',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Delete a classification rule
+   */
+  static async deleteRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const ruleId = Number(req.params.id);
+      const deleted = await ClassificationRuleModel.delete(ruleId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Classification rule not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      RuleClassifier.invalidate();
+
+      res.status(200).json({
+        success: true,
+        message: 'Classification rule deleted successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Classification rule ${ruleId} deleted by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Delete classification rule error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete classification rule',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Evaluate the current rule set against sample text without storing anything
+   */
+  static async dryRun(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const text = String(req.body.text);
+      const entities = AIService.extractEntities(text);
+
+      // Read rules fresh so edits are visible immediately
+      const evaluation = RuleClassifier.evaluate(await ClassificationRuleModel.getEnabled(), {
+        text,
+        filename: req.body.filename || '',
+        entities
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...evaluation,
+          entities
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Classification rule dry run error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to evaluate classification rules',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
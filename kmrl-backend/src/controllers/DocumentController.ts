@@ -0,0 +1,534 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { ProjectModel } from '../models/Project';
+import { DocumentVersionModel } from '../models/DocumentVersion';
+import { ExtractedEntityModel } from '../models/ExtractedEntity';
+import { SearchController } from './SearchController';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import { StorageService, StoredObject } from '../services/StorageService';
+import { FileProcessor, FileValidator } from '../utils/fileUpload';
+import { AUTO_LANGUAGE, OCR_LANGUAGES, detectLanguage, isValidLanguageSetting } from '../utils/language';
+import { extractMentions } from '../utils/entities';
+import logger from '../utils/logger';
+import config from '../config';
+import { APIResponse, Document } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export class DocumentController {
+  // Validation for document upload
+  static uploadValidation = [
+    body('project_id')
+      .optional()
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Project ID must be a positive integer'),
+    body('metadata')
+      .optional()
+      .custom((value) => {
+        if (typeof value === 'object') return true;
+        JSON.parse(value);
+        return true;
+      })
+      .withMessage('Metadata must be valid JSON'),
+    body('language')
+      .optional()
+      .trim()
+      .custom(isValidLanguageSetting)
+      .withMessage(`Language must be '${AUTO_LANGUAGE}' or a '+'-separated list of: ${OCR_LANGUAGES.join(', ')}`)
+  ];
+
+  // Validation for document listing
+  static listValidation = [
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100'),
+    query('project_id').optional().isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    query('uploaded_by').optional().isInt({ min: 1 }).toInt().withMessage('Uploader ID must be a positive integer'),
+    query('status')
+      .optional()
+      .isIn(['pending', 'processing', 'completed', 'failed'])
+      .withMessage('Invalid document status'),
+    query('ai_classification').optional().trim().notEmpty().withMessage('Classification must not be empty'),
+    query('ocr_status')
+      .optional()
+      .isIn(['ok', 'needs_review', 'corrected'])
+      .withMessage('OCR status must be ok, needs_review or corrected'),
+    ...SearchController.entityFilterValidation,
+    ...SearchController.tagFilterValidation
+  ];
+
+  // Validation for routes addressing a single document
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Document ID must be a positive integer')
+  ];
+
+  // Validation for listing a document's entities
+  static entitiesValidation = [
+    ...DocumentController.idValidation,
+    query('type').optional().trim().matches(/^[a-z_]+$/).withMessage('Entity type must be lowercase, e.g. project_code')
+  ];
+
+  // Validation for submitting corrected OCR text
+  static ocrCorrectionValidation = [
+    ...DocumentController.idValidation,
+    body('text').isString().trim().notEmpty().withMessage('Corrected text is required')
+  ];
+
+  /**
+   * Upload one or more documents and queue them for processing
+   */
+  static async uploadDocuments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const files = (req.files as Express.Multer.File[]) || [];
+    let created: Document[] = [];
+
+    try {
+      const user = req.user;
+
+      if (files.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'At least one file is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const projectId = req.body.project_id ? parseInt(req.body.project_id, 10) : undefined;
+      const metadata = typeof req.body.metadata === 'string'
+        ? JSON.parse(req.body.metadata)
+        : req.body.metadata || {};
+
+      // Uploading into a project requires membership (admins bypass)
+      if (projectId && user.role !== 'admin') {
+        const memberRole = await ProjectModel.getMemberRole(projectId, user.id);
+        if (!memberRole) {
+          await Promise.all(files.map((file) => FileProcessor.cleanupTempFile(file.path)));
+          res.status(403).json({
+            success: false,
+            error: 'You are not a member of this project',
+            timestamp: new Date().toISOString()
+          } as APIResponse);
+          return;
+        }
+      }
+
+      // Explicit upload language, then the project's default, then the server default
+      const project = projectId ? await ProjectModel.findById(projectId) : null;
+      const ocrLanguage: string = req.body.language || project?.ocr_language || config.ai.defaultOcrLanguage;
+
+      // Rows are created together so a failure leaves none behind pointing at removed files
+      created = await DocumentModel.createMany(files.map((file) => ({
+        filename: file.filename,
+        original_filename: file.originalname,
+        file_size: file.size,
+        mime_type: file.mimetype || FileValidator.getMimeTypeFromExtension(file.originalname),
+        file_path: file.path,
+        uploaded_by: user.id,
+        status: 'pending' as const,
+        metadata,
+        ocr_language: ocrLanguage,
+        ...(projectId && { project_id: projectId })
+      })));
+
+      const queueService = ProcessingQueueService.getInstance();
+      const documents = [];
+
+      for (const document of created) {
+        const job = await queueService.addDocumentProcessingJob({
+          documentId: document.id,
+          filePath: document.file_path,
+          jobType: 'upload',
+          ocrLanguage
+        });
+
+        documents.push({ ...document, job_id: job.id });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { documents },
+        message: `${documents.length} document(s) uploaded and queued for processing`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`${documents.length} document(s) uploaded by user: ${user.email}`);
+    } catch (error) {
+      logger.error('Document upload error:', error);
+
+      // Rows committed before queueing failed are removed with their files; jobs already
+      // queued for them fail on the missing file
+      for (const document of created) {
+        await DocumentModel.purgeDocument(document.id).catch((purgeError) =>
+          logger.error(`Failed to remove document ${document.id} after upload error:`, purgeError));
+      }
+
+      // Remove files that could not be registered
+      await Promise.all(files.map((file) => FileProcessor.cleanupTempFile(file.path)));
+
+      res.status(500).json({
+        success: false,
+        error: 'Document upload failed',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * List documents with pagination and filters
+   */
+  static async listDocuments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await DocumentController.sendDocumentPage(req, res, {
+        ...(req.query.ocr_status && { ocr_status: String(req.query.ocr_status) })
+      });
+    } catch (error) {
+      logger.error('List documents error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list documents',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * List documents whose OCR confidence is below threshold and need manual correction
+   */
+  static async listOcrReviewQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await DocumentController.sendDocumentPage(req, res, { ocr_status: 'needs_review' });
+    } catch (error) {
+      logger.error('List OCR review queue error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list documents needing OCR review',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Replace the OCR text with a manual correction and clear the review flag
+   */
+  static async correctOcrText(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const text: string = req.body.text;
+
+      const document = await DocumentModel.correctOcrText(documentId, text, detectLanguage(text), req.user.id);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // Page offsets no longer apply to the corrected text
+      await ExtractedEntityModel.replaceForDocument(documentId, extractMentions(text));
+      await DocumentVersionModel.syncCurrent(documentId);
+
+      await DocumentModel.logAccess(documentId, req.user.id, 'edit', req.ip, req.get('User-Agent'));
+      await ProcessingQueueService.getInstance().addIndexingJob({
+        documentId,
+        filePath: document.file_path,
+        jobType: 'indexing'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: document,
+        message: 'OCR text corrected',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`OCR text of document ${documentId} corrected by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Correct OCR text error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to correct OCR text',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Get a single document
+   */
+  static async getDocument(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const document = req.document || await DocumentModel.findById(documentId);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentModel.logAccess(documentId, req.user.id, 'view', req.ip, req.get('User-Agent'));
+
+      res.status(200).json({
+        success: true,
+        data: document,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get document error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Get the extracted text of each page with its OCR confidence
+   */
+  static async getDocumentPages(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const pages = await DocumentModel.getPages(documentId);
+
+      res.status(200).json({
+        success: true,
+        data: pages,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get document pages error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get document pages',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Get the dates, amounts, codes and other entities extracted from a document
+   */
+  static async getDocumentEntities(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const entities = await ExtractedEntityModel.getByDocument(
+        documentId,
+        req.query.type ? String(req.query.type) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entities,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get document entities error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get document entities',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Stream the original file to the client
+   */
+  static async downloadDocument(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const document = req.document || await DocumentModel.findById(documentId);
+      const stored = document ? await StorageService.openDocumentFile(document) : null;
+
+      if (!document || !stored) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentModel.logAccess(documentId, req.user.id, 'download', req.ip, req.get('User-Agent'));
+
+      DocumentController.sendStoredFile(res, stored, document.original_filename, document.mime_type);
+
+      logger.info(`Document ${documentId} downloaded by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Download document error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Issue a short-lived signed URL for downloading the original file
+   */
+  static async getDownloadUrl(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const document = req.document || await DocumentModel.findById(documentId);
+      const storage = StorageService.getProvider();
+
+      if (!document || !document.s3_key || !(await storage.exists(document.s3_key))) {
+        res.status(404).json({
+          success: false,
+          error: 'Stored file not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const expiresIn = config.storage.signedUrlTtl;
+      const url = await storage.getSignedUrl(document.s3_key, {
+        expiresIn,
+        filename: document.original_filename
+      });
+
+      await DocumentModel.logAccess(documentId, req.user.id, 'download', req.ip, req.get('User-Agent'));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          url,
+          expires_at: new Date(Date.now() + expiresIn * 1000).toISOString()
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get download URL error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create download URL',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Move a document to the trash; its files and revisions are removed when it is purged
+   */
+  static async deleteDocument(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      const documentId = Number(req.params.id);
+      const document = req.document || await DocumentModel.findById(documentId);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (DocumentModel.isOnLegalHold(document)) {
+        res.status(409).json({
+          success: false,
+          error: 'Document is under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // Files and history are kept until the document is purged from the trash
+      await DocumentModel.trashDocument(documentId, user.id);
+      await ProcessingQueueService.getInstance().addIndexingJob({
+        documentId,
+        filePath: document.file_path,
+        jobType: 'indexing',
+        action: 'delete'
+      });
+
+      await DocumentModel.logAccess(documentId, user.id, 'delete', req.ip, req.get('User-Agent'));
+
+      res.status(200).json({
+        success: true,
+        message: 'Document moved to trash',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Document ${documentId} moved to trash by user: ${user.email}`);
+    } catch (error) {
+      logger.error('Delete document error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Stream a stored file as an attachment; shared with revision downloads
+   */
+  static sendStoredFile(res: Response, stored: StoredObject, filename: string, mimeType: string): void {
+    res.attachment(filename);
+    res.setHeader('Content-Type', mimeType);
+    if (stored.size !== undefined) {
+      res.setHeader('Content-Length', stored.size.toString());
+    }
+
+    const stream = stored.stream;
+    stream.on('error', (error) => {
+      logger.error('Document stream error:', error);
+      if (!res.headersSent) {
+        res.status(500).end();
+      } else {
+        res.destroy(error);
+      }
+    });
+    stream.pipe(res);
+  }
+
+  // Shared by the document list and review queues; `extraFilters` override query filters
+  private static async sendDocumentPage(
+    req: AuthenticatedRequest,
+    res: Response,
+    extraFilters: { ocr_status?: string } = {}
+  ): Promise<void> {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+
+    const filters = {
+      ...(req.query.project_id && { project_id: Number(req.query.project_id) }),
+      ...(req.query.status && { status: String(req.query.status) }),
+      ...(req.query.ai_classification && { ai_classification: String(req.query.ai_classification) }),
+      ...(req.query.uploaded_by && { uploaded_by: Number(req.query.uploaded_by) }),
+      ...SearchController.entityFilters(req),
+      ...SearchController.tagFilters(req),
+      ...extraFilters
+    };
+
+    const { documents, total } = await DocumentModel.getDocuments(filters, page, limit, req.user);
+
+    res.setHeader('X-Total-Count', total.toString());
+    res.setHeader('X-Page', page.toString());
+    res.setHeader('X-Per-Page', limit.toString());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        documents,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      },
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+}
@@ -0,0 +1,282 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { DocumentVersionModel, FILE_METADATA_KEYS } from '../models/DocumentVersion';
+import { DocumentController } from './DocumentController';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import { RevisionComparer } from '../services/RevisionComparer';
+import { StorageService } from '../services/StorageService';
+import { FileProcessor, FileValidator } from '../utils/fileUpload';
+import logger from '../utils/logger';
+import { APIResponse } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export class DocumentVersionController {
+  // Validation for routes addressing a single revision
+  static versionValidation = [
+    ...DocumentController.idValidation,
+    param('version').isInt({ min: 1 }).toInt().withMessage('Version must be a positive integer')
+  ];
+
+  // Validation for the optional note on a new or restored revision
+  static changeNoteValidation = [
+    body('change_note').optional().isString().trim().isLength({ max: 1000 }).withMessage('Change note must be at most 1000 characters')
+  ];
+
+  // Validation for comparing two revisions
+  static diffValidation = [
+    ...DocumentController.idValidation,
+    query('from').isInt({ min: 1 }).toInt().withMessage('from must be a revision number'),
+    query('to').optional().isInt({ min: 1 }).toInt().withMessage('to must be a revision number'),
+    query('context').optional().isInt({ min: 0, max: 20 }).toInt().withMessage('Context must be between 0 and 20 lines')
+  ];
+
+  /**
+   * Revision history of a document with uploader and timestamp
+   */
+  static async listVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const versions = await DocumentVersionModel.getByDocument(Number(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        data: versions,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List document versions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list document versions',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Upload a new revision of a document; it becomes current and is processed like an upload
+   */
+  static async uploadRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const file = req.file;
+
+    try {
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          error: 'A file is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const document = req.document!;
+      const version = await DocumentVersionModel.addRevision(
+        document.id,
+        {
+          filename: file.filename,
+          original_filename: file.originalname,
+          file_size: file.size,
+          mime_type: file.mimetype || FileValidator.getMimeTypeFromExtension(file.originalname),
+          file_path: file.path
+        },
+        {
+          uploaded_by: req.user.id,
+          status: 'pending',
+          ...(req.body.change_note && { change_note: req.body.change_note })
+        }
+      );
+
+      const job = await ProcessingQueueService.getInstance().addDocumentProcessingJob({
+        documentId: document.id,
+        filePath: file.path,
+        jobType: 'upload',
+        ...(document.ocr_language && { ocrLanguage: document.ocr_language })
+      });
+
+      await DocumentModel.logAccess(document.id, req.user.id, 'edit', req.ip, req.get('User-Agent'));
+
+      res.status(201).json({
+        success: true,
+        data: { ...version, job_id: job.id },
+        message: `Revision ${version.version_number} uploaded and queued for processing`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Revision ${version.version_number} of document ${document.id} uploaded by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Upload document revision error:', error);
+
+      if (file) {
+        await FileProcessor.cleanupTempFile(file.path);
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to upload revision',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Changes in extracted text and entities between two revisions (`to` defaults to the current one)
+   */
+  static async compareVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = req.document!;
+      const fromVersion = Number(req.query.from);
+      const toVersion = Number(req.query.to) || document.current_version || 1;
+
+      const [from, to] = await Promise.all([
+        DocumentVersionModel.getContent(document.id, fromVersion),
+        DocumentVersionModel.getContent(document.id, toVersion)
+      ]);
+
+      if (!from || !to) {
+        res.status(404).json({
+          success: false,
+          error: `Revision ${from ? toVersion : fromVersion} not found`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const context = req.query.context !== undefined ? Number(req.query.context) : 3;
+
+      res.status(200).json({
+        success: true,
+        data: RevisionComparer.compare(document.id, from, to, context),
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Compare document versions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to compare revisions',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Stream the file of any revision
+   */
+  static async downloadVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const version = await DocumentVersionModel.findByNumber(documentId, Number(req.params.version));
+      const stored = version ? await StorageService.openDocumentFile(version) : null;
+
+      if (!version || !stored) {
+        res.status(404).json({
+          success: false,
+          error: 'Revision not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentModel.logAccess(documentId, req.user.id, 'download', req.ip, req.get('User-Agent'));
+
+      DocumentController.sendStoredFile(res, stored, version.original_filename, version.mime_type);
+
+      logger.info(`Revision ${version.version_number} of document ${documentId} downloaded by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Download document version error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download revision',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Make an older revision current again. History is kept: the restore is recorded as a new
+   * revision sharing the old file, whose text is extracted and classified again.
+   */
+  static async restoreVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = req.document!;
+      const versionNumber = Number(req.params.version);
+      const version = await DocumentVersionModel.findByNumber(document.id, versionNumber);
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: 'Revision not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (version.is_current) {
+        res.status(400).json({
+          success: false,
+          error: 'Revision is already current',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (!(await StorageService.documentFileExists(version))) {
+        res.status(404).json({
+          success: false,
+          error: 'Stored file of this revision not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const fileMetadata = Object.fromEntries(
+        Object.entries(version.metadata || {}).filter(([key]) => FILE_METADATA_KEYS.includes(key))
+      );
+
+      const restored = await DocumentVersionModel.addRevision(
+        document.id,
+        {
+          filename: version.filename,
+          original_filename: version.original_filename,
+          file_size: version.file_size,
+          mime_type: version.mime_type,
+          file_path: version.file_path,
+          s3_key: version.s3_key ?? null,
+          metadata: fileMetadata
+        },
+        {
+          uploaded_by: req.user.id,
+          change_note: req.body.change_note || `Restored revision ${versionNumber}`,
+          restored_from: versionNumber,
+          status: 'processing'
+        }
+      );
+
+      // The file is already stored, so processing resumes at OCR
+      await ProcessingQueueService.getInstance().addOCRJob({
+        documentId: document.id,
+        filePath: version.file_path,
+        jobType: 'ocr',
+        ...(version.s3_key && { storageKey: version.s3_key }),
+        ...(document.ocr_language && { ocrLanguage: document.ocr_language })
+      });
+
+      await DocumentModel.logAccess(document.id, req.user.id, 'edit', req.ip, req.get('User-Agent'));
+
+      res.status(201).json({
+        success: true,
+        data: restored,
+        message: `Revision ${versionNumber} restored as revision ${restored.version_number}`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Revision ${versionNumber} of document ${document.id} restored by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Restore document version error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore revision',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
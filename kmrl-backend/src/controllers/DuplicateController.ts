@@ -0,0 +1,207 @@
+import { Response } from 'express';
+import { param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { DocumentDuplicateModel } from '../models/DocumentDuplicate';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import logger from '../utils/logger';
+import { APIResponse, Document } from '../types';
+import { AuthenticatedRequest, canAccessDocument } from '../middleware/auth';
+
+export class DuplicateController {
+  // Validation for cluster listing
+  static listValidation = [
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100')
+  ];
+
+  // Validation for routes addressing a single document
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Document ID must be a positive integer')
+  ];
+
+  /**
+   * List duplicate clusters: originals with the documents flagged as their duplicates
+   */
+  static async listClusters(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 10;
+
+      const { clusters, total } = await DocumentDuplicateModel.getClusters(page, limit, req.user);
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          clusters,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List duplicate clusters error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list duplicate clusters',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Cluster of a document: its original (itself when it is not a duplicate) and the duplicates
+   */
+  static async getCluster(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = req.document!;
+      const original = document.is_duplicate && document.duplicate_of
+        ? await DocumentModel.findById(document.duplicate_of)
+        : document;
+
+      if (!original) {
+        res.status(404).json({
+          success: false,
+          error: 'Original document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const duplicates = await DocumentDuplicateModel.getDuplicatesOf([original.id], req.user);
+
+      // An original in a project the user cannot see is only identified, not shown
+      const visible = original === document || await canAccessDocument(req.user, original);
+
+      res.status(200).json({
+        success: true,
+        data: { original: visible ? original : { id: original.id }, duplicates },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get duplicate cluster error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get duplicate cluster',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Merge a flagged duplicate into its original: tags are carried over, then the duplicate
+   * moves to the trash. The user needs the same access to both documents.
+   */
+  static async mergeDuplicate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const duplicate = req.document!;
+      const original = await DuplicateController.flaggedOriginal(duplicate, res);
+      if (!original) return;
+
+      if (!await canAccessDocument(req.user, original, ['owner', 'manager'])) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions for the original document',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (DocumentModel.isOnLegalHold(duplicate)) {
+        res.status(409).json({
+          success: false,
+          error: 'Duplicate is under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentDuplicateModel.merge(duplicate.id, original.id, req.user.id);
+
+      const queue = ProcessingQueueService.getInstance();
+      await queue.addIndexingJob({
+        documentId: duplicate.id,
+        filePath: duplicate.file_path,
+        jobType: 'indexing',
+        action: 'delete'
+      });
+      await queue.addIndexingJob({ documentId: original.id, filePath: original.file_path, jobType: 'indexing' });
+
+      await DocumentModel.logAccess(duplicate.id, req.user.id, 'delete', req.ip, req.get('User-Agent'));
+
+      res.status(200).json({
+        success: true,
+        data: await DocumentModel.findById(original.id),
+        message: 'Duplicate merged into the original document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Duplicate ${duplicate.id} merged into ${original.id} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Merge duplicate error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to merge duplicate',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Keep a flagged document as a distinct document
+   */
+  static async dismissDuplicate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const duplicate = req.document!;
+      const original = await DuplicateController.flaggedOriginal(duplicate, res);
+      if (!original) return;
+
+      await DocumentDuplicateModel.dismiss(duplicate.id, original.id, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: await DocumentModel.findById(duplicate.id),
+        message: 'Duplicate flag dismissed',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Duplicate flag on ${duplicate.id} dismissed by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Dismiss duplicate error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dismiss duplicate',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  // Original of a flagged document; responds with 400/404 and returns null otherwise
+  private static async flaggedOriginal(document: Document, res: Response): Promise<Document | null> {
+    if (!document.is_duplicate || !document.duplicate_of) {
+      res.status(400).json({
+        success: false,
+        error: 'Document is not flagged as a duplicate',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+      return null;
+    }
+
+    const original = await DocumentModel.findById(document.duplicate_of);
+    if (!original) {
+      res.status(404).json({
+        success: false,
+        error: 'Original document not found',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+    return original;
+  }
+}
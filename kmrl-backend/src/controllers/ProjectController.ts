@@ -0,0 +1,462 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { ProjectModel } from '../models/Project';
+import { UserModel } from '../models/User';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import logger from '../utils/logger';
+import { isValidLanguageSetting } from '../utils/language';
+import { APIResponse, Project } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+const PROJECT_STATUSES = ['active', 'completed', 'on_hold', 'cancelled'];
+const MEMBER_ROLES = ['owner', 'manager', 'member'];
+
+export class ProjectController {
+  // Validation for routes addressing a single project
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer')
+  ];
+
+  // Validation for project listing
+  static listValidation = [
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100'),
+    query('status').optional().isIn(PROJECT_STATUSES).withMessage('Invalid project status'),
+    query('created_by').optional().isInt({ min: 1 }).toInt().withMessage('Creator ID must be a positive integer')
+  ];
+
+  // Validation for project creation
+  static createValidation = [
+    body('name').trim().notEmpty().isLength({ max: 255 }).withMessage('Project name is required (max 255 characters)'),
+    body('description').optional().trim(),
+    body('status').optional().isIn(PROJECT_STATUSES).withMessage('Invalid project status'),
+    body('progress').optional().isInt({ min: 0, max: 100 }).toInt().withMessage('Progress must be between 0 and 100'),
+    body('team_size').optional().isInt({ min: 0 }).toInt().withMessage('Team size must be a non-negative integer'),
+    body('start_date').optional().isISO8601().withMessage('Start date must be a valid date'),
+    body('end_date').optional().isISO8601().withMessage('End date must be a valid date'),
+    body('ocr_language').optional().trim().custom(isValidLanguageSetting).withMessage('Invalid OCR language setting')
+  ];
+
+  // Validation for project updates
+  static updateValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    body('name').optional().trim().notEmpty().isLength({ max: 255 }).withMessage('Project name must not be empty (max 255 characters)'),
+    body('description').optional().trim(),
+    body('status').optional().isIn(PROJECT_STATUSES).withMessage('Invalid project status'),
+    body('progress').optional().isInt({ min: 0, max: 100 }).toInt().withMessage('Progress must be between 0 and 100'),
+    body('team_size').optional().isInt({ min: 0 }).toInt().withMessage('Team size must be a non-negative integer'),
+    body('start_date').optional().isISO8601().withMessage('Start date must be a valid date'),
+    body('end_date').optional().isISO8601().withMessage('End date must be a valid date'),
+    body('ocr_language').optional().trim().custom(isValidLanguageSetting).withMessage('Invalid OCR language setting')
+  ];
+
+  // Validation for adding a project member
+  static addMemberValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    body('user_id').isInt({ min: 1 }).toInt().withMessage('User ID must be a positive integer'),
+    body('role').optional().isIn(MEMBER_ROLES).withMessage('Role must be owner, manager or member')
+  ];
+
+  // Validation for removing a project member
+  static removeMemberValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    param('userId').isInt({ min: 1 }).toInt().withMessage('User ID must be a positive integer')
+  ];
+
+  /**
+   * List projects the user is a member of (all projects for admins) with pagination and filters
+   */
+  static async listProjects(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 10;
+
+      const filters = {
+        ...(req.query.status && { status: String(req.query.status) }),
+        ...(req.query.created_by && { created_by: Number(req.query.created_by) })
+      };
+
+      const { projects, total } = await ProjectModel.getProjects(filters, page, limit, req.user);
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          projects,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List projects error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list projects',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Get aggregate statistics over the projects visible to the user
+   */
+  static async getStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const stats = await ProjectModel.getProjectStats(req.user);
+
+      res.status(200).json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get project stats error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get project statistics',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Get a single project
+   */
+  static async getProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const project = await ProjectModel.findById(Number(req.params.id));
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: project,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Create a project and register the creator as its owner
+   */
+  static async createProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      const { name, description, status, progress, team_size, start_date, end_date, ocr_language } = req.body;
+
+      const project = await ProjectModel.create({
+        name,
+        status: status || 'active',
+        progress: progress || 0,
+        team_size: team_size || 0,
+        created_by: user.id,
+        ...(description && { description }),
+        ...(start_date && { start_date }),
+        ...(end_date && { end_date }),
+        ...(ocr_language && { ocr_language })
+      });
+
+      res.status(201).json({
+        success: true,
+        data: project,
+        message: 'Project created successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Project ${project.id} created by user: ${user.email}`);
+    } catch (error) {
+      logger.error('Create project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Update project details
+   */
+  static async updateProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const fields: (keyof Project)[] = [
+        'name', 'description', 'status', 'progress', 'team_size', 'start_date', 'end_date', 'ocr_language'
+      ];
+
+      const updateData: Partial<Project> = {};
+      for (const field of fields) {
+        if (req.body[field] !== undefined) {
+          (updateData as Record<string, unknown>)[field] = req.body[field];
+        }
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const project = await ProjectModel.updateProject(projectId, updateData);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: project,
+        message: 'Project updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Update project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Move a project and its documents to the trash
+   */
+  static async deleteProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const project = await ProjectModel.findById(projectId);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (await ProjectModel.hasLegalHold(projectId)) {
+        res.status(409).json({
+          success: false,
+          error: 'Project or some of its documents are under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // The project's documents go to the trash with it and leave the search index
+      const documents = await ProjectModel.trashProject(projectId, req.user.id);
+      const queue = ProcessingQueueService.getInstance();
+      for (const document of documents) {
+        await queue.addIndexingJob({
+          documentId: document.id,
+          filePath: document.file_path,
+          jobType: 'indexing',
+          action: 'delete'
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Project moved to trash',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Project ${projectId} moved to trash by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Delete project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * List project members
+   */
+  static async getMembers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const members = await ProjectModel.getProjectMembers(Number(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        data: { members },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get project members error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get project members',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Add a member to a project or change their role; only owners grant or revoke ownership
+   */
+  static async addMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const { user_id: userId, role = 'member' } = req.body;
+
+      // Admins pass authorizeProjectRole without a membership lookup
+      if (!(await ProjectModel.findById(projectId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const currentRole = await ProjectModel.getMemberRole(projectId, userId);
+      if ((role === 'owner' || currentRole === 'owner') && req.projectRole !== 'owner') {
+        res.status(403).json({
+          success: false,
+          error: 'Only project owners can assign or change the owner role',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const member = await UserModel.findById(userId);
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // The project may have moved to the trash since it was looked up
+      if (!(await ProjectModel.addProjectMember(projectId, userId, role))) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+      const members = await ProjectModel.getProjectMembers(projectId);
+
+      res.status(200).json({
+        success: true,
+        data: { members },
+        message: 'Project member added successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Add project member error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add project member',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Remove a member from a project; owners are removed by owners only
+   */
+  static async removeMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const userId = Number(req.params.userId);
+
+      // Members of a trashed project stay as they were until it is restored
+      if (!(await ProjectModel.findById(projectId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const currentRole = await ProjectModel.getMemberRole(projectId, userId);
+      if (currentRole === 'owner' && req.projectRole !== 'owner') {
+        res.status(403).json({
+          success: false,
+          error: 'Only project owners can remove an owner',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await ProjectModel.removeProjectMember(projectId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Project member removed successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Remove project member error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove project member',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Recompute project progress from its documents
+   */
+  static async recomputeProgress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const progress = await ProjectModel.calculateProjectProgress(projectId);
+
+      res.status(200).json({
+        success: true,
+        data: { project_id: projectId, progress },
+        message: 'Project progress recomputed',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Recompute project progress error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to recompute project progress',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
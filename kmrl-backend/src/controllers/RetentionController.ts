@@ -0,0 +1,291 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { ProjectModel } from '../models/Project';
+import { RetentionDispositionModel } from '../models/RetentionDisposition';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import { RetentionService } from '../services/RetentionService';
+import { TrashService } from '../services/TrashService';
+import logger from '../utils/logger';
+import { APIResponse } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export class RetentionController {
+  // Validation for the disposition listing
+  static listValidation = [
+    query('status').optional().isIn(['pending', 'approved', 'rejected']).withMessage('Invalid disposition status'),
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100')
+  ];
+
+  // Validation for approving or rejecting a disposition
+  static decisionValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Disposition ID must be a positive integer'),
+    body('note').optional().isString().trim().isLength({ max: 1000 }).withMessage('Note must be at most 1000 characters')
+  ];
+
+  // Validation for placing or lifting a legal hold on a document or project
+  static legalHoldValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('ID must be a positive integer'),
+    body('hold').isBoolean().toBoolean().withMessage('hold must be a boolean'),
+    body('reason').optional().isString().trim().isLength({ max: 1000 }).withMessage('Reason must be at most 1000 characters')
+  ];
+
+  /**
+   * Documents past retention, by default those awaiting a disposition decision
+   */
+  static async listDispositions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const status = (req.query.status as 'pending' | 'approved' | 'rejected' | undefined) || 'pending';
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+
+      const { dispositions, total } = await RetentionDispositionModel.getDispositions(status, page, limit);
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          dispositions,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List retention dispositions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list retention dispositions',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Run the retention scan now instead of waiting for the schedule
+   */
+  static async scanRetention(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const listed = await RetentionService.scan();
+
+      res.status(200).json({
+        success: true,
+        data: { listed },
+        message: `${listed} documents listed for disposition`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Retention scan run by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Retention scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run retention scan',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Approve a disposition: the document, its revisions and stored files are destroyed. The
+   * disposition record stays as the audit entry.
+   */
+  static async approveDisposition(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dispositionId = Number(req.params.id);
+      const disposition = await RetentionDispositionModel.findById(dispositionId);
+
+      if (!disposition || disposition.status !== 'pending') {
+        res.status(disposition ? 409 : 404).json({
+          success: false,
+          error: disposition ? `Disposition already ${disposition.status}` : 'Disposition not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const document = await DocumentModel.findById(disposition.document_id, true);
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: 'Document no longer exists',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (DocumentModel.isOnLegalHold(document)) {
+        res.status(409).json({
+          success: false,
+          error: 'Document is under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      // Recorded before anything is destroyed so a failed disposal is still on file
+      const approved = await RetentionDispositionModel.decide(dispositionId, 'approved', req.user.id, req.body.note || null);
+      if (!approved) {
+        res.status(409).json({
+          success: false,
+          error: 'Disposition was decided concurrently',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await ProcessingQueueService.getInstance().addIndexingJob({
+        documentId: document.id,
+        filePath: document.file_path,
+        jobType: 'indexing',
+        action: 'delete'
+      });
+      await TrashService.purgeDocument(document);
+
+      res.status(200).json({
+        success: true,
+        data: await RetentionDispositionModel.markDisposed(dispositionId),
+        message: 'Document disposed of',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Document ${document.id} disposed of under retention disposition ${dispositionId} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Approve retention disposition error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve disposition',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Retain a document past its retention period; it is not listed again for the same due date
+   */
+  static async rejectDisposition(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dispositionId = Number(req.params.id);
+      const disposition = await RetentionDispositionModel.findById(dispositionId);
+
+      if (!disposition || disposition.status !== 'pending') {
+        res.status(disposition ? 409 : 404).json({
+          success: false,
+          error: disposition ? `Disposition already ${disposition.status}` : 'Disposition not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const rejected = await RetentionDispositionModel.decide(dispositionId, 'rejected', req.user.id, req.body.note || null);
+
+      res.status(200).json({
+        success: true,
+        data: rejected,
+        message: 'Document retained',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Retention disposition ${dispositionId} rejected by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Reject retention disposition error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject disposition',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Place or lift a legal hold on a document
+   */
+  static async setDocumentHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const hold = Boolean(req.body.hold);
+      const document = await DocumentModel.setLegalHold(
+        Number(req.params.id),
+        hold,
+        req.body.reason || null,
+        req.user.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: document,
+        message: hold ? 'Legal hold placed' : 'Legal hold lifted',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Legal hold ${hold ? 'placed on' : 'lifted from'} document ${req.params.id} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Set document legal hold error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update legal hold',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Place or lift a legal hold on a project; it covers all of the project's documents. Project
+   * owners and managers may place one, only owners may lift it.
+   */
+  static async setProjectHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const hold = Boolean(req.body.hold);
+      const projectId = Number(req.params.id);
+
+      // Membership was checked by authorizeProjectRole, which reports admins as owners
+      if (!hold && req.projectRole !== 'owner') {
+        res.status(403).json({
+          success: false,
+          error: 'Only project owners can lift a legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const project = await ProjectModel.setLegalHold(
+        projectId,
+        hold,
+        req.body.reason || null,
+        req.user.id
+      );
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: project,
+        message: hold ? 'Legal hold placed' : 'Legal hold lifted',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Legal hold ${hold ? 'placed on' : 'lifted from'} project ${project.id} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Set project legal hold error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update legal hold',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { query } from 'express-validator';
+import { SearchService } from '../services/SearchService';
+import logger from '../utils/logger';
+import { normalizeAmount } from '../utils/entities';
+import { normalizeTags } from '../utils/tags';
+import { APIResponse, EntityFilters, SearchQuery, TagFilters } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+// Accepts plain numbers as well as ₹10,00,000 or INR 4.5 style amounts
+const toAmount = (value: string): number | undefined => normalizeAmount(value)?.value;
+
+// Accepts tags=a,b as well as repeated tags=a&tags=b
+const toTagList = (value: unknown): string[] =>
+  normalizeTags((Array.isArray(value) ? value : [value]).flatMap((item) => String(item).split(',')));
+
+export class SearchController {
+  // Validation for filters on extracted entities (shared with the document list)
+  static entityFilterValidation = [
+    query('entity').optional().trim().notEmpty().isLength({ max: 200 }).withMessage('Entity must be at most 200 characters'),
+    query('entity_type').optional().trim().matches(/^[a-z_]+$/).withMessage('Entity type must be lowercase, e.g. project_code'),
+    query('amount_min').optional().customSanitizer(toAmount).isFloat({ min: 0 }).withMessage('Minimum amount must be an amount such as 1000000 or ₹10,00,000'),
+    query('amount_max').optional().customSanitizer(toAmount).isFloat({ min: 0 }).withMessage('Maximum amount must be an amount such as 1000000 or ₹10,00,000'),
+    query('mentioned_from').optional().isISO8601().withMessage('Mentioned-from date must be a valid date'),
+    query('mentioned_to').optional().isISO8601().withMessage('Mentioned-to date must be a valid date')
+  ];
+
+  /**
+   * Entity filters from validated query parameters
+   */
+  static entityFilters(req: Request): EntityFilters {
+    const { entity, entity_type, amount_min, amount_max, mentioned_from, mentioned_to } = req.query;
+
+    return {
+      ...(entity && { entity: String(entity) }),
+      ...(entity_type && { entity_type: String(entity_type) }),
+      ...(amount_min !== undefined && { amount_min: Number(amount_min) }),
+      ...(amount_max !== undefined && { amount_max: Number(amount_max) }),
+      ...(mentioned_from && { mentioned_from: String(mentioned_from) }),
+      ...(mentioned_to && { mentioned_to: String(mentioned_to) })
+    };
+  }
+
+  // Validation for tag filters (shared with the document list)
+  static tagFilterValidation = [
+    query('tags').optional().customSanitizer(toTagList).isArray({ min: 1, max: 20 }).withMessage('Tags must be a list of 1 to 20 valid tags'),
+    query('tags_match').optional().isIn(['any', 'all']).withMessage('tags_match must be any or all')
+  ];
+
+  /**
+   * Tag filters from validated query parameters
+   */
+  static tagFilters(req: Request): TagFilters {
+    const { tags, tags_match } = req.query;
+
+    return {
+      ...(Array.isArray(tags) && { tags: tags.map(String) }),
+      ...(tags_match && { tags_match: tags_match as 'any' | 'all' })
+    };
+  }
+
+  // Validation for search requests
+  static searchValidation = [
+    query('q').optional().trim().isLength({ max: 500 }).withMessage('Query must be at most 500 characters'),
+    query('document_type').optional().trim().notEmpty().withMessage('Document type must not be empty'),
+    query('project_id').optional().isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    query('status')
+      .optional()
+      .isIn(['pending', 'processing', 'completed', 'failed'])
+      .withMessage('Invalid document status'),
+    query('confidence_min').optional().isFloat({ min: 0, max: 1 }).toFloat().withMessage('Minimum confidence must be between 0 and 1'),
+    query('date_from').optional().isISO8601().withMessage('Start date must be a valid date'),
+    query('date_to').optional().isISO8601().withMessage('End date must be a valid date'),
+    query('sort').optional().isIn(['relevance', 'date', 'confidence']).withMessage('Sort must be relevance, date or confidence'),
+    query('include_revisions').optional().isBoolean().toBoolean().withMessage('include_revisions must be a boolean'),
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100'),
+    ...SearchController.entityFilterValidation,
+    ...SearchController.tagFilterValidation
+  ];
+
+  /**
+   * Search documents visible to the current user
+   */
+  static async search(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { q, document_type, project_id, status, confidence_min, date_from, date_to, sort } = req.query;
+
+      const searchQuery: SearchQuery = {
+        query: q ? String(q) : '',
+        filters: {
+          ...(document_type && { document_type: String(document_type) }),
+          ...(project_id && { project_id: Number(project_id) }),
+          ...(status && { status: String(status) }),
+          ...(confidence_min !== undefined && { confidence_min: Number(confidence_min) }),
+          ...((date_from || date_to) && {
+            date_range: {
+              start: date_from ? new Date(String(date_from)) : new Date(0),
+              end: date_to ? new Date(String(date_to)) : new Date()
+            }
+          }),
+          ...SearchController.entityFilters(req),
+          ...SearchController.tagFilters(req)
+        },
+        sort: (sort as SearchQuery['sort']) || 'relevance',
+        ...(req.query.include_revisions && { include_revisions: true }),
+        page: Number(req.query.page) || 1,
+        limit: Number(req.query.limit) || 10
+      };
+
+      const result = await SearchService.search(searchQuery, req.user);
+
+      res.setHeader('X-Total-Count', result.total.toString());
+      res.setHeader('X-Page', result.page.toString());
+      res.setHeader('X-Per-Page', result.limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Search error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Search failed',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { query } from 'express-validator';
+import { LocalStorageProvider, StorageService } from '../services/StorageService';
+import { FileValidator } from '../utils/fileUpload';
+import logger from '../utils/logger';
+import { APIResponse } from '../types';
+
+export class StorageController {
+  // Validation for signed file requests
+  static signedFileValidation = [
+    query('expires').isInt({ min: 0 }).toInt().withMessage('Expiry must be a Unix timestamp'),
+    query('signature').isHexadecimal().withMessage('Signature must be a hex string'),
+    query('filename').optional().isString()
+  ];
+
+  /**
+   * Serve a locally stored file addressed by a signed URL
+   */
+  static async serveSignedFile(req: Request, res: Response): Promise<void> {
+    try {
+      const storage = StorageService.getProvider();
+      const key = req.params[0] || '';
+      const filename = req.query.filename ? String(req.query.filename) : undefined;
+
+      // S3 URLs are signed by the bucket itself; this route only backs the local driver
+      if (
+        !(storage instanceof LocalStorageProvider) ||
+        !storage.verifySignature(key, Number(req.query.expires), String(req.query.signature), filename) ||
+        !(await storage.exists(key))
+      ) {
+        res.status(404).json({
+          success: false,
+          error: 'File not found or link expired',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const stored = await storage.getStream(key);
+
+      if (filename) {
+        res.attachment(filename);
+      }
+      res.setHeader('Content-Type', FileValidator.getMimeTypeFromExtension(filename || key));
+      if (stored.size !== undefined) {
+        res.setHeader('Content-Length', stored.size.toString());
+      }
+
+      stored.stream.on('error', (error) => {
+        logger.error('Stored file stream error:', error);
+        if (!res.headersSent) {
+          res.status(500).end();
+        } else {
+          res.destroy(error);
+        }
+      });
+      stored.stream.pipe(res);
+    } catch (error) {
+      logger.error('Serve signed file error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to serve file',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { DocumentTagModel } from '../models/DocumentTag';
+import { ExtractedEntityModel } from '../models/ExtractedEntity';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import logger from '../utils/logger';
+import { normalizeTag, normalizeTags, suggestTags } from '../utils/tags';
+import { APIResponse, Document } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+// Rejects the whole list when any tag is invalid rather than silently dropping it
+const isTagList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((tag) => typeof tag === 'string' && normalizeTag(tag) !== null);
+
+const TAG_LIST_MESSAGE = 'Tags must be letters, digits and - _ . / : only, at most 50 characters each';
+
+export class TagController {
+  // Validation for the tag usage listing
+  static listValidation = [
+    query('prefix').optional().trim().toLowerCase().isLength({ min: 1, max: 50 }).withMessage('Prefix must be 1 to 50 characters'),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt().withMessage('Limit must be between 1 and 500')
+  ];
+
+  // Validation for adding and removing tags on several documents at once
+  static bulkValidation = [
+    body('document_ids').isArray({ min: 1, max: 500 }).withMessage('document_ids must list 1 to 500 documents'),
+    body('document_ids.*').isInt({ min: 1 }).toInt().withMessage('Document IDs must be positive integers'),
+    body('add').optional().custom(isTagList).withMessage(TAG_LIST_MESSAGE).customSanitizer(normalizeTags),
+    body('remove').optional().custom(isTagList).withMessage(TAG_LIST_MESSAGE).customSanitizer(normalizeTags),
+    body().custom((value) => (value.add?.length || 0) + (value.remove?.length || 0) > 0)
+      .withMessage('Provide tags to add or remove')
+  ];
+
+  // Validation for merging (or renaming) tags across all documents
+  static mergeValidation = [
+    body('from').isArray({ min: 1, max: 20 }).withMessage('from must list 1 to 20 tags')
+      .custom(isTagList).withMessage(TAG_LIST_MESSAGE).customSanitizer(normalizeTags),
+    body('to').isString().withMessage(TAG_LIST_MESSAGE).bail()
+      .customSanitizer(normalizeTag).isString().withMessage(TAG_LIST_MESSAGE)
+  ];
+
+  // Validation for adding tags to one document
+  static documentTagsValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Document ID must be a positive integer'),
+    body('tags').isArray({ min: 1, max: 50 }).withMessage('tags must list 1 to 50 tags')
+      .custom(isTagList).withMessage(TAG_LIST_MESSAGE).customSanitizer(normalizeTags)
+  ];
+
+  // Validation for removing one tag from a document
+  static documentTagValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Document ID must be a positive integer'),
+    param('tag').customSanitizer(normalizeTag).isString().withMessage(TAG_LIST_MESSAGE)
+  ];
+
+  // Validation for tag suggestions
+  static suggestionValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('Document ID must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt().withMessage('Limit must be between 1 and 50')
+  ];
+
+  /**
+   * Tags in use on documents visible to the user with how many documents carry each
+   */
+  static async listTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tags = await DocumentTagModel.getUsage(
+        req.user,
+        req.query.prefix ? String(req.query.prefix) : undefined,
+        Number(req.query.limit) || 100
+      );
+
+      res.status(200).json({
+        success: true,
+        data: tags,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List tags error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list tags',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Add and remove tags on several documents; documents the user cannot see or that are in
+   * the trash are reported as skipped
+   */
+  static async updateDocumentsTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentIds: number[] = [...new Set<number>(req.body.document_ids)];
+      const updated = await DocumentTagModel.updateTags(
+        documentIds,
+        req.body.add || [],
+        req.body.remove || [],
+        req.user
+      );
+      await TagController.reindex(updated);
+
+      const updatedIds = new Set(updated.map((document) => document.id));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          updated: updated.map(({ id, tags }) => ({ id, tags })),
+          skipped: documentIds.filter((id) => !updatedIds.has(id))
+        },
+        message: `Tags updated on ${updated.length} documents`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Tags updated on ${updated.length} documents by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Update document tags error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update tags',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Replace one or more tags with another on every document; a rename is a merge of one tag
+   */
+  static async mergeTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const to: string = req.body.to;
+      const from = (req.body.from as string[]).filter((tag) => tag !== to);
+
+      if (from.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Nothing to merge: the tags are already the same',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const documents = await DocumentTagModel.mergeTags(from, to);
+      // Trashed documents are not in the index; they are reindexed when restored
+      await TagController.reindex(documents.filter((document) => !document.deleted_at));
+
+      res.status(200).json({
+        success: true,
+        data: { from, to, documents: documents.length },
+        message: `Merged ${from.join(', ')} into ${to} on ${documents.length} documents`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Tags ${from.join(', ')} merged into ${to} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Merge tags error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to merge tags',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Add tags to a document
+   */
+  static async addDocumentTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await TagController.updateDocumentTags(req, res, req.body.tags, []);
+  }
+
+  /**
+   * Remove a tag from a document
+   */
+  static async removeDocumentTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await TagController.updateDocumentTags(req, res, [], [String(req.params.tag)]);
+  }
+
+  /**
+   * Tags suggested from the document's classification and extracted entities
+   */
+  static async getSuggestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const document = req.document || await DocumentModel.findById(documentId);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const entities = await ExtractedEntityModel.getByDocument(documentId);
+
+      res.status(200).json({
+        success: true,
+        data: suggestTags(document, entities, Number(req.query.limit) || 10),
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('Get tag suggestions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get tag suggestions',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  // Access to the document was checked by authorizeDocumentAccess
+  private static async updateDocumentTags(
+    req: AuthenticatedRequest,
+    res: Response,
+    add: string[],
+    remove: string[]
+  ): Promise<void> {
+    try {
+      const documentId = Number(req.params.id);
+      const [updated] = await DocumentTagModel.updateTags([documentId], add, remove);
+
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          error: 'Document not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await TagController.reindex([updated]);
+
+      res.status(200).json({
+        success: true,
+        data: { id: updated.id, tags: updated.tags },
+        message: 'Tags updated',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Tags updated on document ${documentId} by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Update document tags error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update tags',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  // Tags are a search filter and facet, so changed documents are pushed to the index again
+  private static async reindex(documents: Pick<Document, 'id' | 'file_path'>[]): Promise<void> {
+    const queue = ProcessingQueueService.getInstance();
+    for (const document of documents) {
+      await queue.addIndexingJob({ documentId: document.id, filePath: document.file_path, jobType: 'indexing' });
+    }
+  }
+}
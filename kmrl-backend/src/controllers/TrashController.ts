@@ -0,0 +1,275 @@
+import { Response } from 'express';
+import { param, query } from 'express-validator';
+import { DocumentModel } from '../models/Document';
+import { ProjectModel } from '../models/Project';
+import { ProcessingQueueService } from '../services/ProcessingQueue';
+import { TrashService } from '../services/TrashService';
+import logger from '../utils/logger';
+import config from '../config';
+import { APIResponse } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export class TrashController {
+  // Validation for trash listings
+  static listValidation = [
+    query('page').optional().isInt({ min: 1 }).toInt().withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt().withMessage('Limit must be between 1 and 100'),
+    query('project_id').optional().isInt({ min: 1 }).toInt().withMessage('Project ID must be a positive integer'),
+    query('deleted_by').optional().isInt({ min: 1 }).toInt().withMessage('Deleted by must be a user ID')
+  ];
+
+  // Validation for routes addressing a trashed document or project
+  static idValidation = [
+    param('id').isInt({ min: 1 }).toInt().withMessage('ID must be a positive integer')
+  ];
+
+  /**
+   * Trashed documents visible to the user, optionally of one project or deleted by one user
+   */
+  static async listDocuments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 10;
+
+      const filters = {
+        ...(req.query.project_id && { project_id: Number(req.query.project_id) }),
+        ...(req.query.deleted_by && { deleted_by: Number(req.query.deleted_by) })
+      };
+
+      const { documents, total } = await DocumentModel.getTrash(
+        filters,
+        config.trash.retentionDays,
+        page,
+        limit,
+        req.user
+      );
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          documents,
+          retention_days: config.trash.retentionDays,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List trashed documents error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list trashed documents',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Trashed projects with the number of documents trashed along with each
+   */
+  static async listProjects(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 10;
+
+      const { projects, total } = await ProjectModel.getTrash(config.trash.retentionDays, page, limit, req.user);
+
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Per-Page', limit.toString());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          projects,
+          retention_days: config.trash.retentionDays,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    } catch (error) {
+      logger.error('List trashed projects error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list trashed projects',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Take a document out of the trash and add it back to the search index
+   */
+  static async restoreDocument(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = req.document!;
+
+      // A document trashed with its project comes back with the project
+      if (document.project_id && !(await ProjectModel.findById(document.project_id))) {
+        res.status(409).json({
+          success: false,
+          error: 'The document\'s project is in the trash; restore the project first',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await DocumentModel.restoreDocument(document.id);
+      await ProcessingQueueService.getInstance().addIndexingJob({
+        documentId: document.id,
+        filePath: document.file_path,
+        jobType: 'indexing'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: await DocumentModel.findById(document.id),
+        message: 'Document restored',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Document ${document.id} restored from trash by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Restore document error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Permanently delete a trashed document and its stored files without waiting for the purge
+   */
+  static async purgeDocument(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = req.document!;
+
+      if (DocumentModel.isOnLegalHold(document)) {
+        res.status(409).json({
+          success: false,
+          error: 'Document is under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await TrashService.purgeDocument(document);
+
+      res.status(200).json({
+        success: true,
+        message: 'Document permanently deleted',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Document ${document.id} permanently deleted by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Permanently delete document error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to permanently delete document',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Take a project out of the trash together with the documents trashed along with it
+   */
+  static async restoreProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const project = await ProjectModel.findById(projectId, true);
+
+      if (!project || !project.deleted_at) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found in trash',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      const documents = await ProjectModel.restoreProject(projectId);
+      const queue = ProcessingQueueService.getInstance();
+      for (const document of documents) {
+        await queue.addIndexingJob({ documentId: document.id, filePath: document.file_path, jobType: 'indexing' });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await ProjectModel.findById(projectId),
+        message: `Project restored with ${documents.length} documents`,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Project ${projectId} restored from trash by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Restore project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+
+  /**
+   * Permanently delete a trashed project and its trashed documents
+   */
+  static async purgeProject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const projectId = Number(req.params.id);
+      const project = await ProjectModel.findById(projectId, true);
+
+      if (!project || !project.deleted_at) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found in trash',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      if (await ProjectModel.hasLegalHold(projectId)) {
+        res.status(409).json({
+          success: false,
+          error: 'Project or some of its documents are under legal hold',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      await TrashService.purgeProject(projectId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Project permanently deleted',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+      logger.info(`Project ${projectId} permanently deleted by user: ${req.user.email}`);
+    } catch (error) {
+      logger.error('Permanently delete project error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to permanently delete project',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+    }
+  }
+}
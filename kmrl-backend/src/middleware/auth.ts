@@ -1,11 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { FirebaseService } from '../services/FirebaseService';
 import { UserModel } from '../models/User';
+import { ProjectModel } from '../models/Project';
+import { DocumentModel } from '../models/Document';
+import { Document } from '../types';
 import logger from '../utils/logger';
 
 export interface AuthenticatedRequest extends Request {
   user?: any;
   firebaseUser?: any;
+  projectRole?: string;
+  document?: Document;
 }
 
 const firebaseService = FirebaseService.getInstance();
@@ -157,6 +162,131 @@ export const authorizeRoles = (...roles: string[]) => {
   };
 };
 
+// Check the user's role within the project addressed by a route parameter (admins bypass)
+export const authorizeProjectRole = (...roles: string[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (req.user.role === 'admin') {
+        req.projectRole = 'owner';
+        next();
+        return;
+      }
+
+      const projectId = parseInt(req.params.id || '', 10);
+      const memberRole = Number.isNaN(projectId)
+        ? null
+        : await ProjectModel.getMemberRole(projectId, req.user.id);
+
+      // With no roles listed, any project member is allowed
+      if (!memberRole || (roles.length > 0 && !roles.includes(memberRole))) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient project permissions',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      req.projectRole = memberRole;
+      next();
+    } catch (error) {
+      logger.error('Project authorization error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed',
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
+};
+
+// Whether `user` may access `document`: admins always may; documents in a project are
+// visible to its members and unassigned documents only to their uploader. When project
+// roles are listed, the uploader or a member holding one of those roles is required.
+export const canAccessDocument = async (
+  user: { id: number; role: string },
+  document: Pick<Document, 'project_id' | 'uploaded_by'>,
+  projectRoles: string[] = []
+): Promise<boolean> => {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  const isUploader = document.uploaded_by === user.id;
+  if (!document.project_id) {
+    return isUploader;
+  }
+
+  const memberRole = await ProjectModel.getMemberRole(document.project_id, user.id);
+  return !!memberRole && (projectRoles.length === 0 || isUploader || projectRoles.includes(memberRole));
+};
+
+// Access check shared by the exports below; `scope` selects live documents, documents in
+// the trash or either
+const documentAccess = (scope: 'live' | 'trash' | 'any', projectRoles: string[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const document = await DocumentModel.findById(parseInt(req.params.id || '', 10), scope !== 'live');
+
+      if (!document || (scope === 'trash' && !document.deleted_at)) {
+        res.status(404).json({
+          success: false,
+          error: scope === 'trash' ? 'Document not found in trash' : 'Document not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!await canAccessDocument(req.user, document, projectRoles)) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions for this document',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      req.document = document;
+      next();
+    } catch (error) {
+      logger.error('Document authorization error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed',
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
+};
+
+// Check that the user may access the document addressed by the :id parameter, following
+// the rules of canAccessDocument
+export const authorizeDocumentAccess = (...projectRoles: string[]) => documentAccess('live', projectRoles);
+
+// Same rules for a document in the trash (restore and permanent delete)
+export const authorizeTrashedDocumentAccess = (...projectRoles: string[]) => documentAccess('trash', projectRoles);
+
+// Same rules for a document whether or not it is in the trash (legal holds)
+export const authorizeAnyDocumentAccess = (...projectRoles: string[]) => documentAccess('any', projectRoles);
+
 export const optionalAuth = async (
   req: AuthenticatedRequest,
   res: Response,
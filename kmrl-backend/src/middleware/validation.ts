@@ -1,12 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationChain } from 'express-validator';
+import { FileProcessor } from '../utils/fileUpload';
 import logger from '../utils/logger';
 
-export const handleValidationErrors = (
+// Files multer stored for this request, in either single or array mode
+const uploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) return [req.file];
+  return Array.isArray(req.files) ? req.files : [];
+};
+
+export const handleValidationErrors = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   const errors = validationResult(req);
   
   if (!errors.isEmpty()) {
@@ -18,6 +25,9 @@ export const handleValidationErrors = (
 
     logger.warn('Validation errors:', formattedErrors);
 
+    // Uploads are written before the form fields can be validated
+    await Promise.all(uploadedFiles(req).map((file) => FileProcessor.cleanupTempFile(file.path)));
+
     res.status(400).json({
       success: false,
       error: 'Validation failed',
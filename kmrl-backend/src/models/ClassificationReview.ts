@@ -0,0 +1,229 @@
+import { pgPool } from '../config/database';
+import { ClassificationReview, User } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+import { DocumentModel } from './Document';
+
+export class ClassificationReviewModel {
+  /**
+   * Open a review for a low-confidence prediction, replacing any open review of the same document
+   */
+  static async create(documentId: number, predictedLabel: string, predictedConfidence: number | null): Promise<ClassificationReview> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        INSERT INTO classification_reviews (document_id, predicted_label, predicted_confidence)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (document_id) WHERE status = 'pending'
+        DO UPDATE SET predicted_label = EXCLUDED.predicted_label,
+                      predicted_confidence = EXCLUDED.predicted_confidence,
+                      created_at = NOW()
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [documentId, predictedLabel, predictedConfidence]);
+      logger.info(`Classification review opened for document ${documentId}: ${predictedLabel} (${predictedConfidence})`);
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error creating classification review:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number, viewer?: Pick<User, 'id' | 'role'>): Promise<ClassificationReview | null> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder();
+      qb.where(`r.id = ${qb.param(id)}`).where('d.deleted_at IS NULL');
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const query = `
+        SELECT r.*
+        FROM classification_reviews r
+        JOIN documents d ON r.document_id = d.id
+        ${qb.buildWhere()}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error finding classification review:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getReviews(
+    status: ClassificationReview['status'] = 'pending',
+    page: number = 1,
+    limit: number = 20,
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<{ reviews: ClassificationReview[]; total: number }> {
+    const client = await pgPool.connect();
+    try {
+      const offset = (page - 1) * limit;
+      const qb = new QueryBuilder()
+        .where('d.deleted_at IS NULL')
+        .whereEquals('r.status', status);
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const whereClause = qb.buildWhere();
+
+      const countQuery = `
+        SELECT COUNT(*)
+        FROM classification_reviews r
+        JOIN documents d ON r.document_id = d.id
+        ${whereClause}
+      `;
+      const countResult = await client.query(countQuery, qb.getValues());
+      const total = parseInt(countResult.rows[0].count);
+
+      // Pending items are worked oldest first; resolved ones newest first
+      const query = `
+        SELECT r.*, d.original_filename, d.project_id, p.name as project_name,
+               u.email as reviewed_by_email
+        FROM classification_reviews r
+        JOIN documents d ON r.document_id = d.id
+        LEFT JOIN projects p ON d.project_id = p.id
+        LEFT JOIN users u ON r.reviewed_by = u.id
+        ${whereClause}
+        ORDER BY ${status === 'pending' ? 'r.created_at ASC' : 'r.reviewed_at DESC'}
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+
+      return {
+        reviews: result.rows,
+        total
+      };
+    } catch (error) {
+      logger.error('Error getting classification reviews:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Close a pending review and write the final label to the document
+   */
+  static async resolve(id: number, finalLabel: string, reviewerId: number, notes?: string): Promise<ClassificationReview | null> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const reviewQuery = `
+        UPDATE classification_reviews
+        SET final_label = $1,
+            status = CASE WHEN predicted_label = $1 THEN 'accepted' ELSE 'overridden' END,
+            reviewed_by = $2,
+            reviewed_at = NOW(),
+            notes = $3
+        WHERE id = $4 AND status = 'pending'
+        RETURNING *
+      `;
+      const reviewResult = await client.query(reviewQuery, [finalLabel, reviewerId, notes || null, id]);
+      const review: ClassificationReview | undefined = reviewResult.rows[0];
+
+      if (!review) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `UPDATE documents
+         SET ai_classification = $1, classification_status = 'reviewed', updated_at = NOW()
+         WHERE id = $2`,
+        [finalLabel, review.document_id]
+      );
+
+      await client.query('COMMIT');
+      logger.info(`Classification review ${id} ${review.status}: ${review.predicted_label} -> ${finalLabel}`);
+
+      return review;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error resolving classification review:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Reviewed predictions give the measured accuracy of the classifier
+   */
+  static async getStats(): Promise<{
+    pending: number;
+    accepted: number;
+    overridden: number;
+    auto_classified: number;
+    accuracy: number | null;
+  }> {
+    const client = await pgPool.connect();
+    try {
+      // Every count covers the same set of documents: those not in the trash
+      const query = `
+        SELECT
+          COUNT(*) FILTER (WHERE r.status = 'pending') as pending,
+          COUNT(*) FILTER (WHERE r.status = 'accepted') as accepted,
+          COUNT(*) FILTER (WHERE r.status = 'overridden') as overridden,
+          (SELECT COUNT(*) FROM documents WHERE classification_status = 'auto' AND deleted_at IS NULL) as auto_classified
+        FROM classification_reviews r
+        JOIN documents d ON r.document_id = d.id
+        WHERE d.deleted_at IS NULL
+      `;
+
+      const result = await client.query(query);
+      const row = result.rows[0];
+      const accepted = parseInt(row.accepted);
+      const overridden = parseInt(row.overridden);
+
+      return {
+        pending: parseInt(row.pending),
+        accepted,
+        overridden,
+        auto_classified: parseInt(row.auto_classified),
+        accuracy: accepted + overridden > 0
+          ? Math.round((accepted / (accepted + overridden)) * 10000) / 10000
+          : null
+      };
+    } catch (error) {
+      logger.error('Error getting classification review stats:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Documents whose label a reviewer confirmed or corrected, for training the offline classifier
+   */
+  static async getTrainingSamples(): Promise<{ document_id: number; text: string; label: string }[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT id as document_id, ocr_text as text, ai_classification as label
+        FROM documents
+        WHERE classification_status = 'reviewed'
+          AND deleted_at IS NULL
+          AND ai_classification IS NOT NULL
+          AND COALESCE(ocr_text, '') <> ''
+        ORDER BY id ASC
+      `;
+
+      const result = await client.query(query);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting classifier training samples:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
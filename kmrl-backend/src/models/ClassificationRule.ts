@@ -0,0 +1,156 @@
+import { pgPool } from '../config/database';
+import { ClassificationRule } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+
+export class ClassificationRuleModel {
+  static async getAll(filters: {
+    classification?: string;
+    rule_type?: ClassificationRule['rule_type'];
+    is_active?: boolean;
+  } = {}): Promise<ClassificationRule[]> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder()
+        .whereEquals('classification', filters.classification)
+        .whereEquals('rule_type', filters.rule_type)
+        .whereEquals('is_active', filters.is_active);
+
+      const query = `
+        SELECT *
+        FROM classification_rules
+        ${qb.buildWhere()}
+        ORDER BY classification ASC, weight DESC, id ASC
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting classification rules:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rules the classifier applies: active rules of active categories
+   */
+  static async getEnabled(): Promise<ClassificationRule[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT r.*
+        FROM classification_rules r
+        JOIN document_classifications c ON r.classification = c.name
+        WHERE r.is_active = true AND c.is_active = true
+        ORDER BY r.id ASC
+      `;
+
+      const result = await client.query(query);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting enabled classification rules:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number): Promise<ClassificationRule | null> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query('SELECT * FROM classification_rules WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error finding classification rule:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async create(
+    data: Pick<ClassificationRule, 'classification' | 'rule_type' | 'pattern'> & Partial<ClassificationRule>
+  ): Promise<ClassificationRule> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        INSERT INTO classification_rules (classification, rule_type, pattern, weight, description, is_active, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `;
+
+      const values = [
+        data.classification,
+        data.rule_type,
+        data.pattern,
+        data.weight !== undefined ? data.weight : 1,
+        data.description || null,
+        data.is_active !== undefined ? data.is_active : true,
+        data.created_by || null
+      ];
+
+      const result = await client.query(query, values);
+      logger.info(`Classification rule created for ${data.classification}: ${data.rule_type} ${data.pattern}`);
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error creating classification rule:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async update(id: number, data: Partial<ClassificationRule>): Promise<ClassificationRule | null> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder()
+        .set('classification', data.classification)
+        .set('rule_type', data.rule_type)
+        .set('pattern', data.pattern)
+        .set('weight', data.weight)
+        .set('description', data.description)
+        .set('is_active', data.is_active);
+
+      if (!qb.hasAssignments()) {
+        throw new Error('No fields to update');
+      }
+
+      qb.where(`id = ${qb.param(id)}`);
+
+      const query = `
+        UPDATE classification_rules
+        SET ${qb.buildSet()}
+        ${qb.buildWhere()}
+        RETURNING *
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      logger.info(`Classification rule updated: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error updating classification rule:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query('DELETE FROM classification_rules WHERE id = $1', [id]);
+      logger.info(`Classification rule deleted: ${id}`);
+
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      logger.error('Error deleting classification rule:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { pgPool } from '../config/database';
+import { DocumentModel } from './Document';
+
+jest.mock('../config/database', () => ({ pgPool: { connect: jest.fn() } }));
+
+const mockedPool = pgPool as unknown as { connect: jest.Mock };
+
+interface CapturedQuery {
+  text: string;
+  values: unknown[];
+}
+
+let queries: CapturedQuery[];
+
+// Whitespace-insensitive form of generated SQL
+const compact = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Distinct $n placeholders referenced by a statement, in ascending order
+const placeholders = (text: string) =>
+  [...new Set([...text.matchAll(/\$(\d+)/g)].map((match) => Number(match[1])))].sort((a, b) => a - b);
+
+// Every bound value is referenced and no placeholder points past the values
+const expectPlaceholdersMatchValues = ({ text, values }: CapturedQuery) => {
+  expect(placeholders(text)).toEqual(values.map((_, index) => index + 1));
+};
+
+const findQuery = (pattern: RegExp): CapturedQuery => {
+  const query = queries.find(({ text }) => pattern.test(text));
+  if (!query) throw new Error(`No query matching ${pattern}`);
+  return query;
+};
+
+const countQuery = () => findQuery(/SELECT COUNT\(\*\)/);
+const pageQuery = () => findQuery(/LIMIT \$\d+ OFFSET \$\d+/);
+const facetQuery = () => findQuery(/WITH matches AS/);
+
+const HEADLINE_VALUE = expect.stringContaining('MaxFragments=3');
+const FILENAME_HEADLINE_VALUE = expect.stringContaining('HighlightAll=true');
+
+beforeEach(() => {
+  queries = [];
+  mockedPool.connect.mockResolvedValue({
+    query: jest.fn(async (text: string, values: unknown[] = []) => {
+      queries.push({ text, values });
+      return /SELECT COUNT\(\*\)/.test(text) ? { rows: [{ count: '0' }] } : { rows: [], rowCount: 0 };
+    }),
+    release: jest.fn()
+  });
+});
+
+describe('DocumentModel.searchDocuments', () => {
+  it('binds the text query once for the full-text and filename matches', async () => {
+    await DocumentModel.searchDocuments({ query: 'tender' });
+
+    expect(compact(countQuery().text)).toContain("plainto_tsquery('english', $1)");
+    expect(compact(countQuery().text)).toContain("plainto_tsquery('simple', $1)");
+    expect(compact(countQuery().text)).toContain('d.original_filename ILIKE $2');
+    expect(countQuery().values).toEqual(['tender', '%tender%']);
+    expect(facetQuery().values).toEqual(['tender', '%tender%']);
+
+    expect(compact(pageQuery().text)).toContain('ORDER BY d.created_at DESC LIMIT $5 OFFSET $6');
+    expect(pageQuery().values).toEqual(['tender', '%tender%', HEADLINE_VALUE, FILENAME_HEADLINE_VALUE, 10, 0]);
+    queries.forEach(expectPlaceholdersMatchValues);
+  });
+
+  it('escapes LIKE wildcards in the filename match', async () => {
+    await DocumentModel.searchDocuments({ query: '50%_off' });
+
+    expect(countQuery().values).toEqual(['50%_off', '%50\\%\\_off%']);
+  });
+
+  it('numbers the date range after the text query', async () => {
+    const start = new Date('2025-01-01T00:00:00Z');
+    const end = new Date('2025-03-31T23:59:59Z');
+
+    await DocumentModel.searchDocuments({ query: 'tender', filters: { date_range: { start, end } }, page: 3, limit: 20 });
+
+    expect(compact(countQuery().text)).toContain('AND d.created_at >= $3 AND d.created_at <= $4');
+    expect(countQuery().values).toEqual(['tender', '%tender%', start, end]);
+
+    expect(compact(pageQuery().text)).toContain('LIMIT $7 OFFSET $8');
+    expect(pageQuery().values).toEqual(['tender', '%tender%', start, end, HEADLINE_VALUE, FILENAME_HEADLINE_VALUE, 20, 40]);
+    queries.forEach(expectPlaceholdersMatchValues);
+  });
+
+  it('ranks by relevance without putting the search text in the SQL', async () => {
+    const text = "x') DESC; DROP TABLE documents; --";
+
+    await DocumentModel.searchDocuments({ query: text, sort: 'relevance' });
+
+    const ordered = compact(pageQuery().text);
+    expect(ordered).toContain('ORDER BY GREATEST( ts_rank(');
+    expect(ordered).toContain("plainto_tsquery('english', $1)), ts_rank(");
+    expect(ordered).toMatch(/plainto_tsquery\('simple', \$1\)\) \) DESC LIMIT \$5 OFFSET \$6$/);
+    for (const query of queries) {
+      expect(query.text).not.toContain('DROP TABLE');
+    }
+    expect(pageQuery().values[0]).toBe(text);
+    queries.forEach(expectPlaceholdersMatchValues);
+  });
+
+  it('sorts by creation date for relevance without a text query', async () => {
+    await DocumentModel.searchDocuments({ query: '', sort: 'relevance' });
+
+    expect(compact(pageQuery().text)).toContain('ORDER BY d.created_at DESC LIMIT $1 OFFSET $2');
+    expect(pageQuery().values).toEqual([10, 0]);
+  });
+
+  it('binds scalar, entity and tag filters in order, keeping zero confidence', async () => {
+    await DocumentModel.searchDocuments({
+      query: 'invoice',
+      filters: {
+        document_type: 'Finance',
+        project_id: 4,
+        status: 'completed',
+        confidence_min: 0,
+        entity: 'KMRL',
+        entity_type: 'organization',
+        amount_min: 1000,
+        tags: ['civil', 'phase-2'],
+        tags_match: 'all'
+      },
+      sort: 'confidence'
+    }, { id: 9, role: 'user' });
+
+    const where = compact(countQuery().text);
+    expect(where).toContain(
+      'AND d.ai_classification = $3 AND d.project_id = $4 AND d.status = $5 AND d.confidence_score >= $6'
+    );
+    expect(where).toContain('LOWER(e.normalized_value) = LOWER($7) AND e.entity_type = $8');
+    expect(where).toContain("e.currency = 'INR' AND e.value_amount IS NOT NULL AND e.value_amount >= $9");
+    expect(where).toContain('AND d.tags @> $10::text[]');
+    expect(where).toContain('project_members WHERE user_id = $11');
+    expect(countQuery().values).toEqual([
+      'invoice', '%invoice%', 'Finance', 4, 'completed', 0, 'KMRL', 'organization', 1000, ['civil', 'phase-2'], 9
+    ]);
+
+    expect(compact(pageQuery().text)).toContain('ORDER BY d.confidence_score DESC NULLS LAST LIMIT $14 OFFSET $15');
+    queries.forEach(expectPlaceholdersMatchValues);
+  });
+
+  it('only excludes trashed documents when nothing is filtered', async () => {
+    await DocumentModel.searchDocuments({ query: '', filters: {} });
+
+    expect(compact(countQuery().text)).toBe('SELECT COUNT(*) FROM documents d WHERE d.deleted_at IS NULL');
+    expect(countQuery().values).toEqual([]);
+    expect(pageQuery().text).not.toContain('ts_headline');
+    expect(pageQuery().values).toEqual([10, 0]);
+  });
+});
+
+describe('DocumentModel.getDocuments', () => {
+  it('only excludes trashed documents when nothing is filtered', async () => {
+    await DocumentModel.getDocuments();
+
+    expect(compact(countQuery().text)).toBe('SELECT COUNT(*) FROM documents d WHERE d.deleted_at IS NULL');
+    expect(countQuery().values).toEqual([]);
+    expect(compact(pageQuery().text)).toContain('WHERE d.deleted_at IS NULL ORDER BY d.created_at DESC LIMIT $1 OFFSET $2');
+    expect(pageQuery().values).toEqual([10, 0]);
+  });
+
+  it('binds scalar, entity and tag filters in order after skipping unset ones', async () => {
+    await DocumentModel.getDocuments({
+      project_id: 2,
+      status: '',
+      ai_classification: 'Engineering',
+      ocr_status: 'completed',
+      entity_type: 'date',
+      mentioned_from: '2025-01-01',
+      mentioned_to: '2025-06-30',
+      tags: ['civil']
+    }, 2, 25, { id: 9, role: 'manager' });
+
+    const where = compact(countQuery().text);
+    expect(where).toContain(
+      'WHERE d.deleted_at IS NULL AND d.project_id = $1 AND d.ai_classification = $2 AND d.ocr_status = $3'
+    );
+    expect(where).toContain('WHERE e.document_id = d.id AND e.entity_type = $4 )');
+    expect(where).toContain('e.value_date IS NOT NULL AND e.value_date >= $5 AND e.value_date <= $6');
+    expect(where).toContain('AND d.tags && $7::text[]');
+    expect(where).toContain('project_members WHERE user_id = $8) OR (d.project_id IS NULL AND d.uploaded_by = $8)');
+    expect(countQuery().values).toEqual([2, 'Engineering', 'completed', 'date', '2025-01-01', '2025-06-30', ['civil'], 9]);
+
+    expect(compact(pageQuery().text)).toContain('LIMIT $9 OFFSET $10');
+    expect(pageQuery().values).toEqual([2, 'Engineering', 'completed', 'date', '2025-01-01', '2025-06-30', ['civil'], 9, 25, 25]);
+    queries.forEach(expectPlaceholdersMatchValues);
+  });
+
+  it('does not restrict admins to their projects', async () => {
+    await DocumentModel.getDocuments({}, 1, 10, { id: 1, role: 'admin' });
+
+    expect(countQuery().text).not.toContain('project_members');
+    expect(countQuery().values).toEqual([]);
+  });
+});
+
+describe('DocumentModel.updateStatus', () => {
+  it('sets only the status when there is no additional data', async () => {
+    await DocumentModel.updateStatus(5, 'failed');
+
+    expect(compact(queries[0]!.text)).toBe('UPDATE documents SET status = $1, updated_at = NOW() WHERE id = $2');
+    expect(queries[0]!.values).toEqual(['failed', 5]);
+  });
+
+  it('numbers the id after the assignments that are given', async () => {
+    await DocumentModel.updateStatus(5, 'completed', {
+      ai_classification: 'Finance',
+      confidence_score: 0,
+      ocr_text: '',
+      metadata: { pages: 2 }
+    });
+
+    expect(compact(queries[0]!.text)).toBe(
+      'UPDATE documents SET status = $1, updated_at = NOW(), ai_classification = $2, confidence_score = $3, ' +
+      "metadata = COALESCE(metadata, '{}'::jsonb) || $4::jsonb, processed_at = NOW() WHERE id = $5"
+    );
+    expect(queries[0]!.values).toEqual(['completed', 'Finance', 0, '{"pages":2}', 5]);
+  });
+});
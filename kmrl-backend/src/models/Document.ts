@@ -1,38 +1,78 @@
+import { PoolClient } from 'pg';
 import { pgPool } from '../config/database';
-import { Document, SearchQuery, SearchResult } from '../types';
+import { Document, EntityFilters, OCRPage, SearchQuery, SearchResult, TagFilters, User } from '../types';
 import logger from '../utils/logger';
+import { QueryBuilder, escapeLike } from '../utils/queryBuilder';
+import { DocumentVersionModel } from './DocumentVersion';
+import { ExtractedEntityModel } from './ExtractedEntity';
+
+// Must match the expression of idx_documents_search_fts (migration 0003) for the index to be used
+const SEARCH_VECTOR = `to_tsvector(
+  CASE WHEN d.language IS NULL OR d.language = 'eng' THEN 'english'::regconfig ELSE 'simple'::regconfig END,
+  COALESCE(d.ocr_text, '')
+)`;
+
+// Text search configuration of each document, as used by SEARCH_VECTOR
+const SEARCH_CONFIG = `CASE WHEN d.language IS NULL OR d.language = 'eng' THEN 'english'::regconfig ELSE 'simple'::regconfig END`;
+
+// Separates ts_headline fragments so they can be split like Elasticsearch highlight fragments
+const FRAGMENT_DELIMITER = '\u001f';
+
+// ts_headline options matching the Elasticsearch highlighter (<mark> tags, 3 fragments)
+const HEADLINE_OPTIONS = `StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MaxWords=25, MinWords=10, FragmentDelimiter="${FRAGMENT_DELIMITER}"`;
+const FILENAME_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
 
 export class DocumentModel {
   static async create(documentData: Omit<Document, 'id' | 'created_at' | 'updated_at'>): Promise<Document> {
+    const [document] = await this.createMany([documentData]);
+    return document!;
+  }
+
+  /**
+   * Insert several documents with their first revisions in one transaction; either all of
+   * them are created or none is
+   */
+  static async createMany(documentsData: Omit<Document, 'id' | 'created_at' | 'updated_at'>[]): Promise<Document[]> {
     const client = await pgPool.connect();
     try {
       const query = `
         INSERT INTO documents (
           filename, original_filename, file_size, mime_type, file_path,
-          s3_key, project_id, uploaded_by, status, metadata
+          s3_key, project_id, uploaded_by, status, metadata, ocr_language
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
         RETURNING *
       `;
-      
-      const values = [
-        documentData.filename,
-        documentData.original_filename,
-        documentData.file_size,
-        documentData.mime_type,
-        documentData.file_path,
-        (documentData as any).s3_key || null,
-        documentData.project_id || null,
-        documentData.uploaded_by,
-        documentData.status || 'pending',
-        JSON.stringify(documentData.metadata || {})
-      ];
-      
-      const result = await client.query(query, values);
-      logger.info(`Document created: ${documentData.filename}`);
-      
-      return result.rows[0];
+
+      await client.query('BEGIN');
+
+      const documents: Document[] = [];
+      for (const documentData of documentsData) {
+        const values = [
+          documentData.filename,
+          documentData.original_filename,
+          documentData.file_size,
+          documentData.mime_type,
+          documentData.file_path,
+          documentData.s3_key || null,
+          documentData.project_id || null,
+          documentData.uploaded_by,
+          documentData.status || 'pending',
+          JSON.stringify(documentData.metadata || {}),
+          documentData.ocr_language || null
+        ];
+
+        const result = await client.query(query, values);
+        await DocumentVersionModel.recordCurrent(client, result.rows[0].id);
+        documents.push(result.rows[0]);
+      }
+
+      await client.query('COMMIT');
+      documents.forEach((document) => logger.info(`Document created: ${document.filename}`));
+
+      return documents;
     } catch (error) {
+      await client.query('ROLLBACK');
       logger.error('Error creating document:', error);
       throw error;
     } finally {
@@ -40,15 +80,16 @@ export class DocumentModel {
     }
   }
 
-  static async findById(id: number): Promise<Document | null> {
+  // Documents in the trash are only found when `includeDeleted` is set
+  static async findById(id: number, includeDeleted: boolean = false): Promise<Document | null> {
     const client = await pgPool.connect();
     try {
       const query = `
-        SELECT d.*, p.name as project_name, u.email as uploaded_by_email
+        SELECT d.*, p.name as project_name, p.legal_hold as project_legal_hold, u.email as uploaded_by_email
         FROM documents d
         LEFT JOIN projects p ON d.project_id = p.id
         LEFT JOIN users u ON d.uploaded_by = u.id
-        WHERE d.id = $1
+        WHERE d.id = $1 ${includeDeleted ? '' : 'AND d.deleted_at IS NULL'}
       `;
       
       const result = await client.query(query, [id]);
@@ -65,36 +106,43 @@ export class DocumentModel {
   static async updateStatus(id: number, status: string, additionalData?: any): Promise<void> {
     const client = await pgPool.connect();
     try {
-      let query = `UPDATE documents SET status = $1, updated_at = NOW()`;
-      let values: any[] = [status];
-      let paramCount = 1;
+      const qb = new QueryBuilder()
+        .set('status', status)
+        .setRaw('updated_at = NOW()');
 
       if (additionalData) {
         if (additionalData.ai_classification) {
-          query += `, ai_classification = $${++paramCount}`;
-          values.push(additionalData.ai_classification);
+          qb.set('ai_classification', additionalData.ai_classification);
         }
-        if (additionalData.confidence_score !== undefined) {
-          query += `, confidence_score = $${++paramCount}`;
-          values.push(additionalData.confidence_score);
+        qb.set('confidence_score', additionalData.confidence_score);
+        qb.set('processing_time', additionalData.processing_time);
+        if (additionalData.ocr_text) {
+          qb.set('ocr_text', additionalData.ocr_text);
         }
-        if (additionalData.processing_time !== undefined) {
-          query += `, processing_time = $${++paramCount}`;
-          values.push(additionalData.processing_time);
+        if (additionalData.file_path) {
+          qb.set('file_path', additionalData.file_path);
         }
-        if (additionalData.ocr_text) {
-          query += `, ocr_text = $${++paramCount}`;
-          values.push(additionalData.ocr_text);
+        if (additionalData.s3_key) {
+          qb.set('s3_key', additionalData.s3_key);
+        }
+        if (additionalData.language) {
+          qb.set('language', additionalData.language);
+        }
+        qb.set('classification_status', additionalData.classification_status);
+        qb.set('ocr_confidence', additionalData.ocr_confidence);
+        qb.set('ocr_status', additionalData.ocr_status);
+        if (additionalData.metadata) {
+          qb.setRaw(`metadata = COALESCE(metadata, '{}'::jsonb) || ${qb.param(JSON.stringify(additionalData.metadata))}::jsonb`);
         }
         if (status === 'completed') {
-          query += `, processed_at = NOW()`;
+          qb.setRaw('processed_at = NOW()');
         }
       }
 
-      query += ` WHERE id = $${++paramCount}`;
-      values.push(id);
+      qb.where(`id = ${qb.param(id)}`);
 
-      await client.query(query, values);
+      const query = `UPDATE documents SET ${qb.buildSet()} ${qb.buildWhere()}`;
+      await client.query(query, qb.getValues());
       logger.info(`Document status updated: ${id} -> ${status}`);
     } catch (error) {
       logger.error('Error updating document status:', error);
@@ -110,36 +158,30 @@ export class DocumentModel {
       status?: string;
       ai_classification?: string;
       uploaded_by?: number;
-    } = {},
+      ocr_status?: string;
+    } & EntityFilters & TagFilters = {},
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: Pick<User, 'id' | 'role'>
   ): Promise<{ documents: Document[], total: number }> {
     const client = await pgPool.connect();
     try {
       const offset = (page - 1) * limit;
-      let whereConditions = [];
-      let values = [];
-      let paramCount = 0;
 
       // Build WHERE conditions dynamically
-      if (filters.project_id) {
-        whereConditions.push(`d.project_id = $${++paramCount}`);
-        values.push(filters.project_id);
-      }
-      if (filters.status) {
-        whereConditions.push(`d.status = $${++paramCount}`);
-        values.push(filters.status);
-      }
-      if (filters.ai_classification) {
-        whereConditions.push(`d.ai_classification = $${++paramCount}`);
-        values.push(filters.ai_classification);
-      }
-      if (filters.uploaded_by) {
-        whereConditions.push(`d.uploaded_by = $${++paramCount}`);
-        values.push(filters.uploaded_by);
-      }
+      const qb = new QueryBuilder()
+        .where('d.deleted_at IS NULL')
+        .whereEquals('d.project_id', filters.project_id)
+        .whereEquals('d.status', filters.status)
+        .whereEquals('d.ai_classification', filters.ai_classification)
+        .whereEquals('d.uploaded_by', filters.uploaded_by)
+        .whereEquals('d.ocr_status', filters.ocr_status);
 
-      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+      ExtractedEntityModel.applyFilters(qb, filters);
+      this.applyTagFilters(qb, filters);
+      this.applyVisibility(qb, viewer);
+
+      const whereClause = qb.buildWhere();
 
       // Count total documents
       const countQuery = `
@@ -147,7 +189,7 @@ export class DocumentModel {
         FROM documents d
         ${whereClause}
       `;
-      const countResult = await client.query(countQuery, values);
+      const countResult = await client.query(countQuery, qb.getValues());
       const total = parseInt(countResult.rows[0].count);
 
       // Get documents with pagination
@@ -158,11 +200,10 @@ export class DocumentModel {
         LEFT JOIN users u ON d.uploaded_by = u.id
         ${whereClause}
         ORDER BY d.created_at DESC
-        LIMIT $${++paramCount} OFFSET $${++paramCount}
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
       `;
-      values.push(limit, offset);
 
-      const result = await client.query(query, values);
+      const result = await client.query(query, qb.getValues());
 
       return {
         documents: result.rows,
@@ -176,7 +217,10 @@ export class DocumentModel {
     }
   }
 
-  static async searchDocuments(searchQuery: SearchQuery): Promise<SearchResult> {
+  static async searchDocuments(
+    searchQuery: SearchQuery,
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<SearchResult> {
     const client = await pgPool.connect();
     try {
       const startTime = Date.now();
@@ -184,42 +228,54 @@ export class DocumentModel {
       const limit = searchQuery.limit || 10;
       const offset = (page - 1) * limit;
 
-      let whereConditions = [];
-      let values = [];
-      let paramCount = 0;
+      const qb = new QueryBuilder().where('d.deleted_at IS NULL');
+      let queryParam: string | null = null;
 
-      // Full-text search on OCR text and filename
+      // Full-text search on OCR text and filename; the query is parsed with both
+      // configurations since stored vectors are English or 'simple' per document
       if (searchQuery.query) {
-        whereConditions.push(`(
-          to_tsvector('english', COALESCE(d.ocr_text, '')) @@ plainto_tsquery('english', $${++paramCount})
-          OR d.original_filename ILIKE $${++paramCount}
+        queryParam = qb.param(searchQuery.query);
+        const filenameParam = qb.param(`%${escapeLike(searchQuery.query)}%`);
+
+        // Superseded revisions are not indexed, so matching them is opt-in
+        const revisionMatch = searchQuery.include_revisions
+          ? `OR EXISTS (
+              SELECT 1 FROM document_versions v
+              WHERE v.document_id = d.id AND v.version_number <> d.current_version
+                AND (
+                  to_tsvector('simple', COALESCE(v.ocr_text, '')) @@ plainto_tsquery('simple', ${queryParam})
+                  OR v.original_filename ILIKE ${filenameParam}
+                )
+            )`
+          : '';
+
+        qb.where(`(
+          ${SEARCH_VECTOR} @@ plainto_tsquery('english', ${queryParam})
+          OR ${SEARCH_VECTOR} @@ plainto_tsquery('simple', ${queryParam})
+          OR d.original_filename ILIKE ${filenameParam}
+          ${revisionMatch}
         )`);
-        values.push(searchQuery.query, `%${searchQuery.query}%`);
-        paramCount++; // Account for the second parameter
       }
 
       // Apply filters
-      if (searchQuery.filters) {
-        if (searchQuery.filters.document_type) {
-          whereConditions.push(`d.ai_classification = $${++paramCount}`);
-          values.push(searchQuery.filters.document_type);
-        }
-        if (searchQuery.filters.project_id) {
-          whereConditions.push(`d.project_id = $${++paramCount}`);
-          values.push(searchQuery.filters.project_id);
-        }
-        if (searchQuery.filters.confidence_min) {
-          whereConditions.push(`d.confidence_score >= $${++paramCount}`);
-          values.push(searchQuery.filters.confidence_min);
-        }
-        if (searchQuery.filters.date_range) {
-          whereConditions.push(`d.created_at >= $${++paramCount} AND d.created_at <= $${++paramCount}`);
-          values.push(searchQuery.filters.date_range.start, searchQuery.filters.date_range.end);
-          paramCount++; // Account for the second parameter
-        }
+      const filters = searchQuery.filters || {};
+      qb.whereEquals('d.ai_classification', filters.document_type)
+        .whereEquals('d.project_id', filters.project_id)
+        .whereEquals('d.status', filters.status)
+        .whereCompare('d.confidence_score', '>=', filters.confidence_min);
+
+      if (filters.date_range) {
+        qb.whereCompare('d.created_at', '>=', filters.date_range.start)
+          .whereCompare('d.created_at', '<=', filters.date_range.end);
       }
 
-      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+      ExtractedEntityModel.applyFilters(qb, filters);
+      this.applyTagFilters(qb, filters);
+
+      // Apply the same visibility rule as getDocuments
+      this.applyVisibility(qb, viewer);
+
+      const whereClause = qb.buildWhere();
 
       // Count total results
       const countQuery = `
@@ -227,38 +283,63 @@ export class DocumentModel {
         FROM documents d
         ${whereClause}
       `;
-      const countResult = await client.query(countQuery, values);
+      const countResult = await client.query(countQuery, qb.getValues());
       const total = parseInt(countResult.rows[0].count);
 
-      // Build ORDER BY clause
+      // Build ORDER BY clause (the search text is only ever referenced by placeholder)
       let orderBy = 'ORDER BY d.created_at DESC';
-      if (searchQuery.sort === 'relevance' && searchQuery.query) {
-        orderBy = `ORDER BY ts_rank(to_tsvector('english', COALESCE(d.ocr_text, '')), plainto_tsquery('english', '${searchQuery.query}')) DESC`;
+      if (searchQuery.sort === 'relevance' && queryParam) {
+        orderBy = `ORDER BY GREATEST(
+          ts_rank(${SEARCH_VECTOR}, plainto_tsquery('english', ${queryParam})),
+          ts_rank(${SEARCH_VECTOR}, plainto_tsquery('simple', ${queryParam}))
+        ) DESC`;
       } else if (searchQuery.sort === 'confidence') {
         orderBy = 'ORDER BY d.confidence_score DESC NULLS LAST';
       }
 
+      // Facets cover every match, not just this page
+      const facets = await this.getSearchFacets(client, whereClause, qb.getValues());
+
+      // Highlight matches like Elasticsearch does; only the page's rows are processed
+      const highlightColumns = queryParam
+        ? `, ts_headline(${SEARCH_CONFIG}, COALESCE(d.ocr_text, ''), plainto_tsquery(${SEARCH_CONFIG}, ${queryParam}),
+              ${qb.param(HEADLINE_OPTIONS)}) as ocr_text_highlight,
+            ts_headline('simple', d.original_filename, plainto_tsquery('simple', ${queryParam}),
+              ${qb.param(FILENAME_HEADLINE_OPTIONS)}) as original_filename_highlight`
+        : '';
+
       // Get search results
       const query = `
-        SELECT d.*, p.name as project_name, u.email as uploaded_by_email
+        SELECT d.*, p.name as project_name, u.email as uploaded_by_email ${highlightColumns}
         FROM documents d
         LEFT JOIN projects p ON d.project_id = p.id
         LEFT JOIN users u ON d.uploaded_by = u.id
         ${whereClause}
         ${orderBy}
-        LIMIT $${++paramCount} OFFSET $${++paramCount}
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
       `;
-      values.push(limit, offset);
 
-      const result = await client.query(query, values);
+      const result = await client.query(query, qb.getValues());
       const processingTime = Date.now() - startTime;
 
       return {
-        documents: result.rows,
+        documents: result.rows.map(({ ocr_text_highlight, original_filename_highlight, ...document }) => {
+          const highlights: Record<string, string[]> = {};
+          const fragments = String(ocr_text_highlight || '').split(FRAGMENT_DELIMITER)
+            .filter((fragment) => fragment.includes('<mark>'));
+          if (fragments.length > 0) {
+            highlights.ocr_text = fragments;
+          }
+          if (String(original_filename_highlight || '').includes('<mark>')) {
+            highlights.original_filename = [original_filename_highlight];
+          }
+          return { ...document, highlights };
+        }),
         total,
         page,
         limit,
-        processing_time: processingTime
+        processing_time: processingTime,
+        facets
       };
     } catch (error) {
       logger.error('Error searching documents:', error);
@@ -268,28 +349,389 @@ export class DocumentModel {
     }
   }
 
-  static async deleteDocument(id: number): Promise<void> {
+  // Same buckets as the Elasticsearch terms aggregations of a search, in one pass over the matches
+  private static async getSearchFacets(
+    client: PoolClient,
+    whereClause: string,
+    values: unknown[]
+  ): Promise<NonNullable<SearchResult['facets']>> {
+    const query = `
+      WITH matches AS (
+        SELECT d.ai_classification, d.project_id, d.status, d.tags
+        FROM documents d
+        ${whereClause}
+      )
+      (SELECT 'ai_classification' as facet, ai_classification as key, NULL as label, COUNT(*)::int as count
+       FROM matches WHERE ai_classification IS NOT NULL
+       GROUP BY ai_classification ORDER BY count DESC, key LIMIT 20)
+      UNION ALL
+      (SELECT 'project', m.project_id::text, MIN(p.name), COUNT(*)::int as count
+       FROM matches m JOIN projects p ON m.project_id = p.id
+       GROUP BY m.project_id ORDER BY count DESC, m.project_id LIMIT 20)
+      UNION ALL
+      (SELECT 'status', status, NULL, COUNT(*)::int as count
+       FROM matches GROUP BY status ORDER BY count DESC, status LIMIT 10)
+      UNION ALL
+      (SELECT 'tags', t.tag, NULL, COUNT(*)::int as count
+       FROM matches CROSS JOIN LATERAL unnest(matches.tags) AS t(tag)
+       GROUP BY t.tag ORDER BY count DESC, t.tag LIMIT 20)
+    `;
+
+    const result = await client.query(query, values);
+    const facets: NonNullable<SearchResult['facets']> = { ai_classification: [], project: [], status: [], tags: [] };
+
+    for (const row of result.rows as { facet: keyof typeof facets; key: string; label: string | null; count: number }[]) {
+      facets[row.facet].push({
+        key: row.facet === 'project' ? Number(row.key) : row.key,
+        count: row.count,
+        ...(row.label && { label: row.label })
+      });
+    }
+
+    return facets;
+  }
+
+  // Restrict non-admins to documents of their projects or their own unassigned uploads;
+  // expects the documents table to be aliased as `d`
+  static applyVisibility(qb: QueryBuilder, viewer?: Pick<User, 'id' | 'role'>): void {
+    if (!viewer || viewer.role === 'admin') {
+      return;
+    }
+
+    const viewerParam = qb.param(viewer.id);
+    qb.where(`(
+      d.project_id IN (SELECT project_id FROM project_members WHERE user_id = ${viewerParam})
+      OR (d.project_id IS NULL AND d.uploaded_by = ${viewerParam})
+    )`);
+  }
+
+  // Restrict to documents carrying any (or all) of the tags; served by idx_documents_tags
+  static applyTagFilters(qb: QueryBuilder, filters: TagFilters): void {
+    if (!filters.tags || filters.tags.length === 0) {
+      return;
+    }
+
+    const operator = filters.tags_match === 'all' ? '@>' : '&&';
+    qb.where(`d.tags ${operator} ${qb.param(filters.tags)}::text[]`);
+  }
+
+  /**
+   * Move a document to the trash; it is hidden everywhere until restored or purged
+   */
+  static async trashDocument(id: number, deletedBy: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query(
+        'UPDATE documents SET deleted_at = NOW(), deleted_by = $2 WHERE id = $1 AND deleted_at IS NULL',
+        [id, deletedBy]
+      );
+      logger.info(`Document moved to trash: ${id}`);
+    } catch (error) {
+      logger.error('Error moving document to trash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async restoreDocument(id: number): Promise<Document | null> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE documents SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+         WHERE id = $1 AND deleted_at IS NOT NULL
+         RETURNING *`,
+        [id]
+      );
+      logger.info(`Document restored from trash: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error restoring document:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Trashed documents visible to `viewer`, most recently deleted first, with the time the
+   * retention purge will remove them
+   */
+  static async getTrash(
+    filters: {
+      project_id?: number;
+      deleted_by?: number;
+    },
+    retentionDays: number,
+    page: number = 1,
+    limit: number = 10,
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<{ documents: Document[], total: number }> {
+    const client = await pgPool.connect();
+    try {
+      const offset = (page - 1) * limit;
+      const qb = new QueryBuilder()
+        .where('d.deleted_at IS NOT NULL')
+        .whereEquals('d.project_id', filters.project_id)
+        .whereEquals('d.deleted_by', filters.deleted_by);
+      this.applyVisibility(qb, viewer);
+
+      const whereClause = qb.buildWhere();
+
+      const countResult = await client.query(`SELECT COUNT(*) FROM documents d ${whereClause}`, qb.getValues());
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT d.id, d.filename, d.original_filename, d.file_size, d.mime_type, d.project_id,
+               d.uploaded_by, d.status, d.ai_classification, d.current_version, d.created_at,
+               d.deleted_at, d.deleted_by, p.name as project_name, p.deleted_at as project_deleted_at,
+               u.email as uploaded_by_email, du.email as deleted_by_email,
+               d.deleted_at + make_interval(days => ${qb.param(retentionDays)}) as purge_at
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        LEFT JOIN users u ON d.uploaded_by = u.id
+        LEFT JOIN users du ON d.deleted_by = du.id
+        ${whereClause}
+        ORDER BY d.deleted_at DESC
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+
+      return {
+        documents: result.rows,
+        total
+      };
+    } catch (error) {
+      logger.error('Error getting trashed documents:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Documents that have been in the trash for longer than `retentionDays`, in id order;
+   * documents under legal hold are kept
+   */
+  static async getExpiredTrash(retentionDays: number, afterId: number, batchSize: number = 100): Promise<Document[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT d.*
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        WHERE d.deleted_at < NOW() - make_interval(days => $1) AND d.id > $2
+          AND d.legal_hold = false AND p.legal_hold IS NOT TRUE
+        ORDER BY d.id ASC
+        LIMIT $3
+      `;
+
+      const result = await client.query(query, [retentionDays, afterId, batchSize]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting expired trash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // A hold on the document or on its project blocks deleting it; expects a row from findById
+  static isOnLegalHold(document: Document): boolean {
+    return !!(document.legal_hold || document.project_legal_hold);
+  }
+
+  /**
+   * Place or lift a legal hold on a document; each change is recorded in legal_hold_events
+   */
+  static async setLegalHold(id: number, hold: boolean, reason: string | null, userId: number): Promise<Document | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE documents
+        SET legal_hold = $2,
+            legal_hold_reason = CASE WHEN $2 THEN $3 ELSE NULL END,
+            legal_hold_by = CASE WHEN $2 THEN $4::int ELSE NULL END,
+            legal_hold_at = CASE WHEN $2 THEN NOW() ELSE NULL END,
+            updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `;
+
+      await client.query('BEGIN');
+      const result = await client.query(query, [id, hold, reason, userId]);
+      if (result.rows[0]) {
+        await client.query(
+          `INSERT INTO legal_hold_events (document_id, action, reason, user_id) VALUES ($1, $2, $3, $4)`,
+          [id, hold ? 'placed' : 'lifted', reason, userId]
+        );
+      }
+      await client.query('COMMIT');
+      logger.info(`Legal hold ${hold ? 'placed on' : 'lifted from'} document: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error setting document legal hold:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Permanently delete a document; processing jobs, access logs, revisions and other
+   * dependent rows cascade away
+   */
+  static async purgeDocument(id: number): Promise<void> {
     const client = await pgPool.connect();
     try {
+      await client.query('BEGIN');
+
+      // The oldest duplicate of a deleted original becomes the original of the rest
+      await client.query(
+        `WITH successor AS (SELECT MIN(id) AS id FROM documents WHERE duplicate_of = $1)
+         UPDATE documents SET
+           is_duplicate = documents.id <> successor.id,
+           duplicate_of = NULLIF(successor.id, documents.id),
+           duplicate_type = CASE WHEN documents.id = successor.id THEN NULL ELSE documents.duplicate_type END,
+           duplicate_similarity = CASE WHEN documents.id = successor.id THEN NULL ELSE documents.duplicate_similarity END
+         FROM successor
+         WHERE documents.duplicate_of = $1`,
+        [id]
+      );
+
       const query = `DELETE FROM documents WHERE id = $1`;
       await client.query(query, [id]);
-      logger.info(`Document deleted: ${id}`);
+      await client.query('COMMIT');
+      logger.info(`Document permanently deleted: ${id}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error permanently deleting document:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async logAccess(
+    documentId: number,
+    userId: number,
+    action: 'view' | 'download' | 'edit' | 'delete',
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        INSERT INTO document_access_logs (document_id, user_id, action, ip_address, user_agent)
+        VALUES ($1, $2, $3, $4, $5)
+      `;
+
+      await client.query(query, [documentId, userId, action, ipAddress || null, userAgent || null]);
+    } catch (error) {
+      logger.error('Error logging document access:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace the stored per-page text of a document
+   */
+  static async replacePages(documentId: number, pages: OCRPage[]): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM document_pages WHERE document_id = $1', [documentId]);
+
+      for (const page of pages) {
+        await client.query(
+          `INSERT INTO document_pages (document_id, page_number, text, confidence, source, words)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            documentId,
+            page.page_number,
+            page.text,
+            page.confidence,
+            page.source,
+            page.words ? JSON.stringify(page.words) : null
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
     } catch (error) {
-      logger.error('Error deleting document:', error);
+      await client.query('ROLLBACK');
+      logger.error('Error saving document pages:', error);
       throw error;
     } finally {
       client.release();
     }
   }
 
-  static async getDocumentsByProject(projectId: number): Promise<Document[]> {
+  /**
+   * Store manually corrected OCR text and clear the review flag
+   */
+  static async correctOcrText(id: number, text: string, language: string | null, correctedBy: number): Promise<Document | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE documents
+        SET ocr_text = $1,
+            language = COALESCE($2, language),
+            ocr_status = 'corrected',
+            metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+              'ocr_correction', jsonb_build_object('corrected_by', $3::int, 'corrected_at', NOW())
+            ),
+            updated_at = NOW()
+        WHERE id = $4
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [text, language, correctedBy, id]);
+      logger.info(`OCR text corrected for document: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error correcting OCR text:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getPages(documentId: number): Promise<OCRPage[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT page_number, text, confidence::float AS confidence, source, words
+        FROM document_pages
+        WHERE document_id = $1
+        ORDER BY page_number ASC
+      `;
+
+      const result = await client.query(query, [documentId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting document pages:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDocumentsByProject(projectId: number, includeDeleted: boolean = false): Promise<Document[]> {
     const client = await pgPool.connect();
     try {
       const query = `
         SELECT d.*, u.email as uploaded_by_email
         FROM documents d
         LEFT JOIN users u ON d.uploaded_by = u.id
-        WHERE d.project_id = $1
+        WHERE d.project_id = $1 ${includeDeleted ? '' : 'AND d.deleted_at IS NULL'}
         ORDER BY d.created_at DESC
       `;
       
@@ -303,6 +745,53 @@ export class DocumentModel {
     }
   }
 
+  static async getDocumentsForIndexing(afterId: number, batchSize: number = 500): Promise<Document[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT d.*, p.name as project_name
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        WHERE d.id > $1 AND d.deleted_at IS NULL
+        ORDER BY d.id ASC
+        LIMIT $2
+      `;
+
+      const result = await client.query(query, [afterId, batchSize]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting documents for indexing:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Documents changed since `since`, trashed ones included, to catch up an index that was
+   * rebuilt while they changed
+   */
+  static async getDocumentsChangedSince(since: Date): Promise<Document[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT d.*, p.name as project_name
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        WHERE d.updated_at >= $1
+        ORDER BY d.id ASC
+      `;
+
+      const result = await client.query(query, [since]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting changed documents:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   static async getDashboardMetrics(): Promise<any> {
     const client = await pgPool.connect();
     try {
@@ -316,6 +805,7 @@ export class DocumentModel {
           COUNT(CASE WHEN status = 'processing' THEN 1 END) as processing_documents,
           COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_documents
         FROM documents
+        WHERE deleted_at IS NULL
       `;
       
       const result = await client.query(query);
@@ -0,0 +1,135 @@
+import { pgPool } from '../config/database';
+import { DocumentClassification } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+
+export class DocumentClassificationModel {
+  static async getAll(includeInactive: boolean = false): Promise<DocumentClassification[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT c.*, COUNT(d.id)::int as document_count
+        FROM document_classifications c
+        LEFT JOIN documents d ON d.ai_classification = c.name AND d.deleted_at IS NULL
+        ${includeInactive ? '' : 'WHERE c.is_active = true'}
+        GROUP BY c.id
+        ORDER BY c.name ASC
+      `;
+
+      const result = await client.query(query);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting document classifications:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number): Promise<DocumentClassification | null> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query('SELECT * FROM document_classifications WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error finding document classification:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async create(data: Pick<DocumentClassification, 'name'> & Partial<DocumentClassification>): Promise<DocumentClassification> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        INSERT INTO document_classifications (
+          name, description, color, aliases, is_active,
+          retention_years, retention_from, retention_metadata_key
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *
+      `;
+
+      const values = [
+        data.name,
+        data.description || null,
+        data.color || null,
+        data.aliases || [],
+        data.is_active !== undefined ? data.is_active : true,
+        data.retention_years || null,
+        data.retention_from || 'created_at',
+        data.retention_metadata_key || null
+      ];
+
+      const result = await client.query(query, values);
+      logger.info(`Document classification created: ${data.name}`);
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error creating document classification:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a category; renames cascade to documents and reviews
+   */
+  static async update(id: number, data: Partial<DocumentClassification>): Promise<DocumentClassification | null> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder()
+        .set('name', data.name)
+        .set('description', data.description)
+        .set('color', data.color)
+        .set('aliases', data.aliases)
+        .set('is_active', data.is_active)
+        .set('retention_years', data.retention_years)
+        .set('retention_from', data.retention_from)
+        .set('retention_metadata_key', data.retention_metadata_key);
+
+      if (!qb.hasAssignments()) {
+        throw new Error('No fields to update');
+      }
+
+      qb.where(`id = ${qb.param(id)}`);
+
+      const query = `
+        UPDATE document_classifications
+        SET ${qb.buildSet()}
+        ${qb.buildWhere()}
+        RETURNING *
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      logger.info(`Document classification updated: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error updating document classification:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete a category; fails with a foreign key violation while documents still use it
+   */
+  static async delete(id: number): Promise<boolean> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query('DELETE FROM document_classifications WHERE id = $1', [id]);
+      logger.info(`Document classification deleted: ${id}`);
+
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      logger.error('Error deleting document classification:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { pgPool } from '../config/database';
+import { Document, DuplicateCluster, DuplicateType, User } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+import { DocumentModel } from './Document';
+
+export interface FingerprintData {
+  content_hash?: string;
+  // Signed decimal strings, as Postgres BIGINT expects
+  text_simhash?: string;
+  text_bands?: number[];
+  image_hash?: string;
+  image_bands?: number[];
+}
+
+export interface DuplicateCandidate {
+  document_id: number;
+  // Root of the candidate's cluster: the candidate itself unless it is a duplicate
+  original_id: number;
+  hash: string;
+}
+
+// Hash and band columns per similarity hash kind
+const HASH_COLUMNS = {
+  text: { hash: 'text_simhash', bands: 'text_bands' },
+  image: { hash: 'image_hash', bands: 'image_bands' }
+} as const;
+
+// Near-duplicate lookups compare at most this many band matches in memory
+const MAX_CANDIDATES = 200;
+
+// Candidates for `documentId` from the fingerprint table `f` joined to documents `d`, skipping
+// the document itself, its own cluster, trashed documents and pairs a reviewer has dismissed
+const CANDIDATE_CONDITIONS = `
+  f.document_id <> $1
+  AND d.deleted_at IS NULL
+  AND COALESCE(d.duplicate_of, d.id) <> $1
+  AND NOT EXISTS (
+    SELECT 1 FROM duplicate_dismissals x
+    WHERE (x.document_id = $1 AND x.duplicate_of IN (d.id, COALESCE(d.duplicate_of, d.id)))
+       OR (x.duplicate_of = $1 AND x.document_id IN (d.id, COALESCE(d.duplicate_of, d.id)))
+  )
+`;
+
+export class DocumentDuplicateModel {
+  /**
+   * Store fingerprints of a document; columns that are not given keep their value
+   */
+  static async saveFingerprint(documentId: number, fingerprint: FingerprintData): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      const columns = Object.keys(fingerprint) as (keyof FingerprintData)[];
+      if (columns.length === 0) {
+        return;
+      }
+
+      const query = `
+        INSERT INTO document_fingerprints (document_id, ${columns.join(', ')})
+        VALUES ($1, ${columns.map((_, index) => `$${index + 2}`).join(', ')})
+        ON CONFLICT (document_id) DO UPDATE SET
+          ${columns.map((column) => `${column} = EXCLUDED.${column}`).join(', ')}
+      `;
+      await client.query(query, [documentId, ...columns.map((column) => fingerprint[column])]);
+    } catch (error) {
+      logger.error('Error saving document fingerprint:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Documents whose stored file has the same SHA-256, oldest cluster first
+   */
+  static async findByContentHash(documentId: number, contentHash: string): Promise<DuplicateCandidate[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT f.document_id, COALESCE(d.duplicate_of, d.id) AS original_id, f.content_hash AS hash
+        FROM document_fingerprints f
+        JOIN documents d ON d.id = f.document_id
+        WHERE f.content_hash = $2 AND ${CANDIDATE_CONDITIONS}
+        ORDER BY original_id ASC, f.document_id ASC
+        LIMIT ${MAX_CANDIDATES}
+      `;
+      const result = await client.query(query, [documentId, contentHash]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error finding documents by content hash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Documents sharing at least one LSH band with the given similarity hash
+   */
+  static async findByBands(documentId: number, kind: keyof typeof HASH_COLUMNS, bands: number[]): Promise<DuplicateCandidate[]> {
+    const client = await pgPool.connect();
+    try {
+      const columns = HASH_COLUMNS[kind];
+      const query = `
+        SELECT f.document_id, COALESCE(d.duplicate_of, d.id) AS original_id, f.${columns.hash}::text AS hash
+        FROM document_fingerprints f
+        JOIN documents d ON d.id = f.document_id
+        WHERE f.${columns.bands} && $2::int[] AND f.${columns.hash} IS NOT NULL AND ${CANDIDATE_CONDITIONS}
+        ORDER BY original_id ASC, f.document_id ASC
+        LIMIT ${MAX_CANDIDATES}
+      `;
+      const result = await client.query(query, [documentId, bands]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error finding near-duplicate candidates:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Flag `duplicateId` as a duplicate of `originalId`. Documents already pointing at
+   * `duplicateId` move to the new original so clusters stay one level deep.
+   */
+  static async link(duplicateId: number, originalId: number, type: DuplicateType, similarity: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE documents SET
+          is_duplicate = true,
+          duplicate_of = $2,
+          duplicate_type = CASE WHEN id = $1 THEN $3 ELSE duplicate_type END,
+          duplicate_similarity = CASE WHEN id = $1 THEN $4 ELSE duplicate_similarity END,
+          updated_at = NOW()
+        WHERE id = $1 OR duplicate_of = $1
+      `;
+      await client.query(query, [duplicateId, originalId, type, similarity]);
+      logger.info(`Document ${duplicateId} flagged as ${type} duplicate of ${originalId}`);
+    } catch (error) {
+      logger.error('Error linking duplicate document:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Originals with at least one flagged duplicate, newest first
+   */
+  static async getClusters(
+    page: number = 1,
+    limit: number = 10,
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<{ clusters: DuplicateCluster[], total: number }> {
+    const client = await pgPool.connect();
+    try {
+      const offset = (page - 1) * limit;
+      const qb = new QueryBuilder()
+        .where('d.deleted_at IS NULL')
+        .where(`EXISTS (
+          SELECT 1 FROM documents x
+          WHERE x.duplicate_of = d.id AND x.is_duplicate = true AND x.deleted_at IS NULL
+        )`);
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const countResult = await client.query(
+        `SELECT COUNT(*) FROM documents d ${qb.buildWhere()}`,
+        qb.getValues()
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT d.*, p.name as project_name, u.email as uploaded_by_email
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        LEFT JOIN users u ON d.uploaded_by = u.id
+        ${qb.buildWhere()}
+        ORDER BY d.created_at DESC
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
+      `;
+      const result = await client.query(query, qb.getValues());
+
+      const duplicates = await this.getDuplicatesOf(result.rows.map((row: Document) => row.id), viewer);
+      const clusters = result.rows.map((original: Document) => ({
+        original,
+        duplicates: duplicates.filter((duplicate) => duplicate.duplicate_of === original.id)
+      }));
+
+      return { clusters, total };
+    } catch (error) {
+      logger.error('Error getting duplicate clusters:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Visible documents flagged as duplicates of any of `originalIds`
+   */
+  static async getDuplicatesOf(originalIds: number[], viewer?: Pick<User, 'id' | 'role'>): Promise<Document[]> {
+    if (originalIds.length === 0) {
+      return [];
+    }
+
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder();
+      qb.where(`d.duplicate_of = ANY(${qb.param(originalIds)}::int[])`)
+        .where('d.is_duplicate = true')
+        .where('d.deleted_at IS NULL');
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const query = `
+        SELECT d.*, p.name as project_name, u.email as uploaded_by_email
+        FROM documents d
+        LEFT JOIN projects p ON d.project_id = p.id
+        LEFT JOIN users u ON d.uploaded_by = u.id
+        ${qb.buildWhere()}
+        ORDER BY d.duplicate_similarity DESC NULLS LAST, d.created_at ASC
+      `;
+      const result = await client.query(query, qb.getValues());
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting duplicate documents:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Clear a duplicate flag and remember the pair so detection does not link it again
+   */
+  static async dismiss(documentId: number, originalId: number, dismissedBy: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO duplicate_dismissals (document_id, duplicate_of, dismissed_by)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (document_id, duplicate_of) DO NOTHING`,
+        [documentId, originalId, dismissedBy]
+      );
+      await client.query(
+        `UPDATE documents SET
+           is_duplicate = false, duplicate_of = NULL, duplicate_type = NULL, duplicate_similarity = NULL,
+           updated_at = NOW()
+         WHERE id = $1`,
+        [documentId]
+      );
+      await client.query('COMMIT');
+      logger.info(`Duplicate flag on document ${documentId} dismissed`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error dismissing duplicate:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Fold a duplicate into its original: the original gains the duplicate's tags and the
+   * duplicate moves to the trash, where the retention purge removes it and its files.
+   * The search index is the caller's concern.
+   */
+  static async merge(duplicateId: number, originalId: number, mergedBy: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE documents o SET
+           tags = ARRAY(SELECT DISTINCT unnest(COALESCE(o.tags, '{}') || COALESCE(dup.tags, '{}'))),
+           updated_at = NOW()
+         FROM documents dup
+         WHERE o.id = $2 AND dup.id = $1`,
+        [duplicateId, originalId]
+      );
+      await client.query(
+        'UPDATE documents SET deleted_at = NOW(), deleted_by = $2 WHERE id = $1 AND deleted_at IS NULL',
+        [duplicateId, mergedBy]
+      );
+      await client.query('COMMIT');
+      logger.info(`Duplicate document ${duplicateId} merged into ${originalId}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error merging duplicate document:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { pgPool } from '../config/database';
+import { Document, TagUsage, User } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder, escapeLike } from '../utils/queryBuilder';
+import { DocumentModel } from './Document';
+
+export class DocumentTagModel {
+  /**
+   * Add and remove tags on the listed documents that `viewer` can see; trashed documents are
+   * left alone. Returns the updated documents with their new tags.
+   */
+  static async updateTags(
+    documentIds: number[],
+    add: string[],
+    remove: string[],
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<Pick<Document, 'id' | 'file_path' | 'tags'>[]> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder();
+      qb.setRaw(`tags = ARRAY(
+          SELECT DISTINCT t FROM unnest(d.tags || ${qb.param(add)}::text[]) t
+          WHERE t <> ALL(${qb.param(remove)}::text[])
+          ORDER BY t
+        )`)
+        .setRaw('updated_at = NOW()')
+        .where(`d.id = ANY(${qb.param(documentIds)}::int[])`)
+        .where('d.deleted_at IS NULL');
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const query = `
+        UPDATE documents d
+        SET ${qb.buildSet()}
+        ${qb.buildWhere()}
+        RETURNING d.id, d.file_path, d.tags
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      logger.info(`Tags updated on ${result.rowCount} documents`);
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Error updating document tags:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Tags in use on documents visible to `viewer`, most used first, optionally starting with `prefix`
+   */
+  static async getUsage(
+    viewer?: Pick<User, 'id' | 'role'>,
+    prefix?: string,
+    limit: number = 100
+  ): Promise<TagUsage[]> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder().where('d.deleted_at IS NULL');
+      if (prefix) {
+        qb.where(`t.tag LIKE ${qb.param(`${escapeLike(prefix)}%`)}`);
+      }
+      DocumentModel.applyVisibility(qb, viewer);
+
+      const query = `
+        SELECT t.tag, COUNT(*)::int as count
+        FROM documents d
+        CROSS JOIN LATERAL unnest(d.tags) AS t(tag)
+        ${qb.buildWhere()}
+        GROUP BY t.tag
+        ORDER BY count DESC, t.tag ASC
+        LIMIT ${qb.param(limit)}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting tag usage:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace each of `sources` with `target` on every document, trashed ones included; renaming
+   * is merging a single tag. Returns the documents that changed.
+   */
+  static async mergeTags(sources: string[], target: string): Promise<Pick<Document, 'id' | 'file_path' | 'deleted_at'>[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE documents
+        SET tags = ARRAY(
+              SELECT DISTINCT CASE WHEN t = ANY($1::text[]) THEN $2 ELSE t END
+              FROM unnest(tags) t
+              ORDER BY 1
+            ),
+            updated_at = NOW()
+        WHERE tags && $1::text[]
+        RETURNING id, file_path, deleted_at
+      `;
+
+      const result = await client.query(query, [sources, target]);
+      logger.info(`Tags ${sources.join(', ')} merged into ${target} on ${result.rowCount} documents`);
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Error merging tags:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { PoolClient } from 'pg';
+import { pgPool } from '../config/database';
+import { DocumentVersion } from '../types';
+import logger from '../utils/logger';
+
+// Metadata keys describing the stored file rather than the document; they follow the revision
+export const FILE_METADATA_KEYS = [
+  'size', 'created', 'modified', 'type', 'dimensions', 'format', 'colorSpace',
+  'thumbnail', 'thumbnail_key', 'storage_driver', 'ocr', 'classification'
+];
+
+export interface RevisionFile {
+  filename: string;
+  original_filename: string;
+  file_size: number;
+  mime_type: string;
+  file_path: string;
+  s3_key?: string | null;
+  // File metadata the revision starts with (empty for uploads, which processing fills in)
+  metadata?: Record<string, unknown>;
+}
+
+export interface RevisionDetails {
+  uploaded_by: number;
+  change_note?: string;
+  restored_from?: number;
+  // Document status while the revision is processed
+  status: 'pending' | 'processing';
+}
+
+const VERSION_COLUMNS = `
+  v.id, v.document_id, v.version_number, v.filename, v.original_filename, v.file_size, v.mime_type,
+  v.file_path, v.s3_key, v.metadata, v.change_note, v.restored_from, v.uploaded_by, v.created_at,
+  u.email AS uploaded_by_email, v.version_number = d.current_version AS is_current
+`;
+
+export class DocumentVersionModel {
+  /**
+   * Copy the documents row into the revision it currently describes; runs on `client` so it can
+   * join the caller's transaction. Uploader and change note of an existing revision are kept.
+   */
+  static async recordCurrent(client: PoolClient, documentId: number): Promise<void> {
+    await client.query(
+      `INSERT INTO document_versions (
+         document_id, version_number, filename, original_filename, file_size, mime_type,
+         file_path, s3_key, metadata, ocr_text, pages, uploaded_by
+       )
+       SELECT d.id, d.current_version, d.filename, d.original_filename, d.file_size, d.mime_type,
+              d.file_path, d.s3_key, COALESCE(d.metadata, '{}'), d.ocr_text,
+              (SELECT jsonb_agg(jsonb_build_object('page_number', p.page_number, 'text', p.text) ORDER BY p.page_number)
+               FROM document_pages p WHERE p.document_id = d.id),
+              d.uploaded_by
+       FROM documents d
+       WHERE d.id = $1
+       ON CONFLICT (document_id, version_number) DO UPDATE SET
+         filename = EXCLUDED.filename,
+         original_filename = EXCLUDED.original_filename,
+         file_size = EXCLUDED.file_size,
+         mime_type = EXCLUDED.mime_type,
+         file_path = EXCLUDED.file_path,
+         s3_key = EXCLUDED.s3_key,
+         metadata = EXCLUDED.metadata,
+         ocr_text = EXCLUDED.ocr_text,
+         pages = EXCLUDED.pages`,
+      [documentId]
+    );
+  }
+
+  /**
+   * Bring the current revision up to date after processing stored its file or text
+   */
+  static async syncCurrent(documentId: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await this.recordCurrent(client, documentId);
+    } catch (error) {
+      logger.error('Error syncing document version:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Make `file` the current revision of a document. Results derived from the previous
+   * revision (OCR text and pages, entities, classification, duplicate flag) are cleared
+   * for reprocessing.
+   */
+  static async addRevision(documentId: number, file: RevisionFile, details: RevisionDetails): Promise<DocumentVersion> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Locking the document serializes concurrent revisions of it
+      const current = await client.query('SELECT current_version FROM documents WHERE id = $1 FOR UPDATE', [documentId]);
+      if (!current.rows[0]) {
+        throw new Error(`Document not found: ${documentId}`);
+      }
+      const latest = await client.query(
+        'SELECT MAX(version_number) AS version_number FROM document_versions WHERE document_id = $1',
+        [documentId]
+      );
+      // Restoring makes a new revision too, so the next number is past the highest, not the current one
+      const versionNumber = Math.max(Number(latest.rows[0].version_number) || 0, current.rows[0].current_version) + 1;
+
+      await client.query(
+        `UPDATE documents SET
+           current_version = $2,
+           filename = $3,
+           original_filename = $4,
+           file_size = $5,
+           mime_type = $6,
+           file_path = $7,
+           s3_key = $8,
+           metadata = (COALESCE(metadata, '{}'::jsonb) - $9::text[]) || $10::jsonb,
+           status = $11,
+           ocr_text = NULL,
+           ocr_confidence = NULL,
+           ocr_status = NULL,
+           language = NULL,
+           ai_classification = NULL,
+           confidence_score = NULL,
+           classification_status = NULL,
+           is_duplicate = false,
+           duplicate_of = NULL,
+           duplicate_type = NULL,
+           duplicate_similarity = NULL,
+           processed_at = NULL,
+           updated_at = NOW()
+         WHERE id = $1`,
+        [
+          documentId,
+          versionNumber,
+          file.filename,
+          file.original_filename,
+          file.file_size,
+          file.mime_type,
+          file.file_path,
+          file.s3_key || null,
+          FILE_METADATA_KEYS,
+          JSON.stringify(file.metadata || {}),
+          details.status
+        ]
+      );
+
+      await client.query('DELETE FROM document_pages WHERE document_id = $1', [documentId]);
+      await client.query('DELETE FROM extracted_entities WHERE document_id = $1', [documentId]);
+      // A pending review is about the replaced content's label; classifying the new revision
+      // opens a new one if it is needed
+      await client.query(
+        `DELETE FROM classification_reviews WHERE document_id = $1 AND status = 'pending'`,
+        [documentId]
+      );
+      // Documents flagged as copies of the replaced content may no longer match it; duplicate
+      // detection on the new revision links the document again when it still does
+      await client.query(
+        `UPDATE documents SET
+           is_duplicate = false, duplicate_of = NULL, duplicate_type = NULL, duplicate_similarity = NULL,
+           updated_at = NOW()
+         WHERE duplicate_of = $1`,
+        [documentId]
+      );
+
+      await this.recordCurrent(client, documentId);
+      await client.query(
+        `UPDATE document_versions SET uploaded_by = $3, change_note = $4, restored_from = $5
+         WHERE document_id = $1 AND version_number = $2`,
+        [documentId, versionNumber, details.uploaded_by, details.change_note || null, details.restored_from || null]
+      );
+
+      await client.query('COMMIT');
+      logger.info(`Document ${documentId} revision ${versionNumber} created`);
+
+      return (await this.findByNumber(documentId, versionNumber))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error adding document revision:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Revision history of a document, newest first
+   */
+  static async getByDocument(documentId: number): Promise<DocumentVersion[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT ${VERSION_COLUMNS}
+        FROM document_versions v
+        JOIN documents d ON d.id = v.document_id
+        LEFT JOIN users u ON v.uploaded_by = u.id
+        WHERE v.document_id = $1
+        ORDER BY v.version_number DESC
+      `;
+      const result = await client.query(query, [documentId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting document versions:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Text and page texts of a revision
+   */
+  static async getContent(documentId: number, versionNumber: number): Promise<Pick<DocumentVersion, 'version_number' | 'ocr_text' | 'pages'> | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT version_number, ocr_text, pages
+        FROM document_versions
+        WHERE document_id = $1 AND version_number = $2
+      `;
+      const result = await client.query(query, [documentId, versionNumber]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting document version content:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findByNumber(documentId: number, versionNumber: number): Promise<DocumentVersion | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT ${VERSION_COLUMNS}
+        FROM document_versions v
+        JOIN documents d ON d.id = v.document_id
+        LEFT JOIN users u ON v.uploaded_by = u.id
+        WHERE v.document_id = $1 AND v.version_number = $2
+      `;
+      const result = await client.query(query, [documentId, versionNumber]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error finding document version:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
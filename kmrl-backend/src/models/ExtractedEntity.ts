@@ -0,0 +1,123 @@
+import { pgPool } from '../config/database';
+import { EntityFilters, EntityMention, ExtractedEntity } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+
+export class ExtractedEntityModel {
+  /**
+   * Replace every stored entity of a document with a fresh extraction
+   */
+  static async replaceForDocument(documentId: number, mentions: EntityMention[]): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM extracted_entities WHERE document_id = $1', [documentId]);
+
+      for (const mention of mentions) {
+        await client.query(
+          `INSERT INTO extracted_entities
+             (document_id, entity_type, raw_value, normalized_value, value_date, value_amount, currency,
+              page_number, char_offset, source)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            documentId,
+            mention.entity_type,
+            mention.raw_value,
+            mention.normalized_value,
+            mention.value_date || null,
+            mention.value_amount !== undefined ? mention.value_amount : null,
+            mention.currency || null,
+            mention.page_number,
+            mention.char_offset,
+            mention.source
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error saving extracted entities:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getByDocument(documentId: number, entityType?: string): Promise<ExtractedEntity[]> {
+    const client = await pgPool.connect();
+    try {
+      const qb = new QueryBuilder()
+        .whereEquals('document_id', documentId)
+        .whereEquals('entity_type', entityType);
+
+      const query = `
+        SELECT id, document_id, entity_type, raw_value, normalized_value,
+               value_date::text AS value_date, value_amount::float AS value_amount, currency,
+               page_number, char_offset, source, created_at
+        FROM extracted_entities
+        ${qb.buildWhere()}
+        ORDER BY entity_type ASC, page_number ASC NULLS FIRST, char_offset ASC NULLS LAST
+      `;
+
+      const result = await client.query(query, qb.getValues());
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting extracted entities:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Restrict a document query to documents whose entities match; expects the documents
+  // table to be aliased as `d`. Amount bounds apply to INR amounts.
+  static applyFilters(qb: QueryBuilder, filters: EntityFilters): void {
+    if (filters.entity || filters.entity_type) {
+      const conditions = [
+        filters.entity ? `AND LOWER(e.normalized_value) = LOWER(${qb.param(filters.entity)})` : '',
+        filters.entity_type ? `AND e.entity_type = ${qb.param(filters.entity_type)}` : ''
+      ].join(' ');
+
+      qb.where(`EXISTS (
+        SELECT 1 FROM extracted_entities e
+        WHERE e.document_id = d.id ${conditions}
+      )`);
+    }
+
+    if (filters.amount_min !== undefined || filters.amount_max !== undefined) {
+      const bounds = [
+        filters.amount_min !== undefined ? `AND e.value_amount >= ${qb.param(filters.amount_min)}` : '',
+        filters.amount_max !== undefined ? `AND e.value_amount <= ${qb.param(filters.amount_max)}` : ''
+      ].join(' ');
+
+      qb.where(`EXISTS (
+        SELECT 1 FROM extracted_entities e
+        WHERE e.document_id = d.id AND e.currency = 'INR' AND e.value_amount IS NOT NULL ${bounds}
+      )`);
+    }
+
+    if (filters.mentioned_from || filters.mentioned_to) {
+      const bounds = [
+        filters.mentioned_from ? `AND e.value_date >= ${qb.param(filters.mentioned_from)}` : '',
+        filters.mentioned_to ? `AND e.value_date <= ${qb.param(filters.mentioned_to)}` : ''
+      ].join(' ');
+
+      qb.where(`EXISTS (
+        SELECT 1 FROM extracted_entities e
+        WHERE e.document_id = d.id AND e.value_date IS NOT NULL ${bounds}
+      )`);
+    }
+  }
+
+  static hasFilters(filters: EntityFilters): boolean {
+    return Boolean(
+      filters.entity ||
+      filters.entity_type ||
+      filters.amount_min !== undefined ||
+      filters.amount_max !== undefined ||
+      filters.mentioned_from ||
+      filters.mentioned_to
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { pgPool } from '../config/database';
+import { ProjectModel } from './Project';
+
+jest.mock('../config/database', () => ({ pgPool: { connect: jest.fn() } }));
+
+const mockedPool = pgPool as unknown as { connect: jest.Mock };
+
+let query: jest.Mock;
+
+// Whitespace-insensitive form of generated SQL
+const compact = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+beforeEach(() => {
+  query = jest.fn(async () => ({ rows: [{ id: 3 }], rowCount: 1 }));
+  mockedPool.connect.mockResolvedValue({ query, release: jest.fn() });
+});
+
+describe('ProjectModel.updateProject', () => {
+  it('numbers the id after the fields that are given', async () => {
+    await ProjectModel.updateProject(3, { name: 'Phase 2', description: '', progress: 0 });
+
+    const [text, values] = query.mock.calls[0]!;
+    expect(compact(text)).toBe(
+      'UPDATE projects SET name = $1, description = $2, progress = $3, updated_at = NOW() ' +
+      'WHERE id = $4 AND deleted_at IS NULL RETURNING *'
+    );
+    expect(values).toEqual(['Phase 2', '', 0, 3]);
+  });
+
+  it('rejects an update without fields before querying', async () => {
+    await expect(ProjectModel.updateProject(3, {})).rejects.toThrow('No fields to update');
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('returns null for a project that is missing or in the trash', async () => {
+    query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+    await expect(ProjectModel.updateProject(3, { name: 'Phase 2' })).resolves.toBeNull();
+  });
+});
+
+describe('ProjectModel.getProjects', () => {
+  it('restricts non-admins to their projects after the filters', async () => {
+    query.mockResolvedValueOnce({ rows: [{ count: '0' }] });
+
+    await ProjectModel.getProjects({ status: 'active' }, 1, 10, { id: 9, role: 'manager' });
+
+    const [countText, countValues] = query.mock.calls[0]!;
+    expect(compact(countText)).toContain(
+      'WHERE p.deleted_at IS NULL AND p.status = $1 AND p.id IN (SELECT project_id FROM project_members WHERE user_id = $2)'
+    );
+    expect(countValues).toEqual(['active', 9]);
+  });
+});
@@ -1,14 +1,18 @@
 import { pgPool } from '../config/database';
-import { Project } from '../types';
+import { Document, Project, User } from '../types';
 import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
 
 export class ProjectModel {
+  /**
+   * Create a project; its creator is registered as owner in the same transaction
+   */
   static async create(projectData: Omit<Project, 'id' | 'created_at' | 'updated_at'>): Promise<Project> {
     const client = await pgPool.connect();
     try {
       const query = `
-        INSERT INTO projects (name, description, status, progress, team_size, start_date, end_date, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        INSERT INTO projects (name, description, status, progress, team_size, start_date, end_date, created_by, ocr_language)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *
       `;
       
@@ -20,14 +24,26 @@ export class ProjectModel {
         projectData.team_size || 0,
         projectData.start_date || null,
         projectData.end_date || null,
-        (projectData as any).created_by || null
+        projectData.created_by || null,
+        projectData.ocr_language || null
       ];
       
+      await client.query('BEGIN');
       const result = await client.query(query, values);
+
+      if (projectData.created_by) {
+        await client.query(
+          `INSERT INTO project_members (project_id, user_id, role) VALUES ($1, $2, 'owner')`,
+          [result.rows[0].id, projectData.created_by]
+        );
+      }
+
+      await client.query('COMMIT');
       logger.info(`Project created: ${projectData.name}`);
       
       return result.rows[0];
     } catch (error) {
+      await client.query('ROLLBACK');
       logger.error('Error creating project:', error);
       throw error;
     } finally {
@@ -35,7 +51,8 @@ export class ProjectModel {
     }
   }
 
-  static async findById(id: number): Promise<Project | null> {
+  // Projects in the trash are only found when `includeDeleted` is set
+  static async findById(id: number, includeDeleted: boolean = false): Promise<Project | null> {
     const client = await pgPool.connect();
     try {
       const query = `
@@ -44,9 +61,9 @@ export class ProjectModel {
                COUNT(pm.user_id) as member_count
         FROM projects p
         LEFT JOIN users u ON p.created_by = u.id
-        LEFT JOIN documents d ON p.id = d.project_id
+        LEFT JOIN documents d ON p.id = d.project_id AND d.deleted_at IS NULL
         LEFT JOIN project_members pm ON p.id = pm.project_id
-        WHERE p.id = $1
+        WHERE p.id = $1 ${includeDeleted ? '' : 'AND p.deleted_at IS NULL'}
         GROUP BY p.id, u.email
       `;
       
@@ -67,26 +84,21 @@ export class ProjectModel {
       created_by?: number;
     } = {},
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: Pick<User, 'id' | 'role'>
   ): Promise<{ projects: Project[], total: number }> {
     const client = await pgPool.connect();
     try {
       const offset = (page - 1) * limit;
-      let whereConditions = [];
-      let values = [];
-      let paramCount = 0;
 
       // Build WHERE conditions dynamically
-      if (filters.status) {
-        whereConditions.push(`p.status = $${++paramCount}`);
-        values.push(filters.status);
-      }
-      if (filters.created_by) {
-        whereConditions.push(`p.created_by = $${++paramCount}`);
-        values.push(filters.created_by);
-      }
+      const qb = new QueryBuilder()
+        .where('p.deleted_at IS NULL')
+        .whereEquals('p.status', filters.status)
+        .whereEquals('p.created_by', filters.created_by);
+      this.applyVisibility(qb, viewer);
 
-      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+      const whereClause = qb.buildWhere();
 
       // Count total projects
       const countQuery = `
@@ -94,7 +106,7 @@ export class ProjectModel {
         FROM projects p
         ${whereClause}
       `;
-      const countResult = await client.query(countQuery, values);
+      const countResult = await client.query(countQuery, qb.getValues());
       const total = parseInt(countResult.rows[0].count);
 
       // Get projects with additional info
@@ -105,16 +117,15 @@ export class ProjectModel {
                AVG(d.confidence_score) as avg_document_confidence
         FROM projects p
         LEFT JOIN users u ON p.created_by = u.id
-        LEFT JOIN documents d ON p.id = d.project_id
+        LEFT JOIN documents d ON p.id = d.project_id AND d.deleted_at IS NULL
         LEFT JOIN project_members pm ON p.id = pm.project_id
         ${whereClause}
         GROUP BY p.id, u.email
         ORDER BY p.created_at DESC
-        LIMIT $${++paramCount} OFFSET $${++paramCount}
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
       `;
-      values.push(limit, offset);
 
-      const result = await client.query(query, values);
+      const result = await client.query(query, qb.getValues());
 
       return {
         projects: result.rows,
@@ -128,61 +139,52 @@ export class ProjectModel {
     }
   }
 
-  static async updateProject(id: number, updateData: Partial<Project>): Promise<Project> {
+  // Restrict non-admins to projects they are a member of; expects the projects table to be
+  // aliased as `p`
+  static applyVisibility(qb: QueryBuilder, viewer?: Pick<User, 'id' | 'role'>): void {
+    if (!viewer || viewer.role === 'admin') {
+      return;
+    }
+
+    qb.where(`p.id IN (SELECT project_id FROM project_members WHERE user_id = ${qb.param(viewer.id)})`);
+  }
+
+  /**
+   * Update a project that is not in the trash; returns null when there is none
+   */
+  static async updateProject(id: number, updateData: Partial<Project>): Promise<Project | null> {
     const client = await pgPool.connect();
     try {
-      const updateFields = [];
-      const values = [];
-      let paramCount = 0;
-
       // Build dynamic update query
-      if (updateData.name !== undefined) {
-        updateFields.push(`name = $${++paramCount}`);
-        values.push(updateData.name);
-      }
-      if (updateData.description !== undefined) {
-        updateFields.push(`description = $${++paramCount}`);
-        values.push(updateData.description);
-      }
-      if (updateData.status !== undefined) {
-        updateFields.push(`status = $${++paramCount}`);
-        values.push(updateData.status);
-      }
-      if (updateData.progress !== undefined) {
-        updateFields.push(`progress = $${++paramCount}`);
-        values.push(updateData.progress);
-      }
-      if (updateData.team_size !== undefined) {
-        updateFields.push(`team_size = $${++paramCount}`);
-        values.push(updateData.team_size);
-      }
-      if (updateData.start_date !== undefined) {
-        updateFields.push(`start_date = $${++paramCount}`);
-        values.push(updateData.start_date);
-      }
-      if (updateData.end_date !== undefined) {
-        updateFields.push(`end_date = $${++paramCount}`);
-        values.push(updateData.end_date);
-      }
+      const qb = new QueryBuilder()
+        .set('name', updateData.name)
+        .set('description', updateData.description)
+        .set('status', updateData.status)
+        .set('progress', updateData.progress)
+        .set('team_size', updateData.team_size)
+        .set('start_date', updateData.start_date)
+        .set('end_date', updateData.end_date)
+        .set('ocr_language', updateData.ocr_language);
 
-      if (updateFields.length === 0) {
+      if (!qb.hasAssignments()) {
         throw new Error('No fields to update');
       }
 
-      updateFields.push(`updated_at = NOW()`);
+      qb.setRaw('updated_at = NOW()')
+        .where(`id = ${qb.param(id)}`)
+        .where('deleted_at IS NULL');
       
       const query = `
         UPDATE projects 
-        SET ${updateFields.join(', ')}
-        WHERE id = $${++paramCount}
+        SET ${qb.buildSet()}
+        ${qb.buildWhere()}
         RETURNING *
       `;
-      values.push(id);
 
-      const result = await client.query(query, values);
+      const result = await client.query(query, qb.getValues());
       logger.info(`Project updated: ${id}`);
       
-      return result.rows[0];
+      return result.rows[0] || null;
     } catch (error) {
       logger.error('Error updating project:', error);
       throw error;
@@ -191,35 +193,243 @@ export class ProjectModel {
     }
   }
 
-  static async deleteProject(id: number): Promise<void> {
+  /**
+   * Move a project and its documents to the trash. The documents share the project's
+   * deletion time, which is how restoring the project finds them again.
+   * Returns the documents trashed with it.
+   */
+  static async trashProject(id: number, deletedBy: number): Promise<Pick<Document, 'id' | 'file_path'>[]> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'UPDATE projects SET deleted_at = NOW(), deleted_by = $2 WHERE id = $1 AND deleted_at IS NULL',
+        [id, deletedBy]
+      );
+      const documents = await client.query(
+        `UPDATE documents SET deleted_at = NOW(), deleted_by = $2
+         WHERE project_id = $1 AND deleted_at IS NULL
+         RETURNING id, file_path`,
+        [id, deletedBy]
+      );
+      await client.query('COMMIT');
+      logger.info(`Project moved to trash: ${id}`);
+
+      return documents.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error moving project to trash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Restore a project with the documents that were trashed together with it; documents
+   * deleted on their own before stay in the trash. Returns the restored documents.
+   */
+  static async restoreProject(id: number): Promise<Pick<Document, 'id' | 'file_path'>[]> {
     const client = await pgPool.connect();
     try {
-      // First, update documents to remove project association
+      await client.query('BEGIN');
+      const documents = await client.query(
+        `UPDATE documents d SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+         FROM projects p
+         WHERE p.id = $1 AND d.project_id = p.id AND d.deleted_at = p.deleted_at
+         RETURNING d.id, d.file_path`,
+        [id]
+      );
+      await client.query(
+        'UPDATE projects SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW() WHERE id = $1',
+        [id]
+      );
+      await client.query('COMMIT');
+      logger.info(`Project restored from trash: ${id}`);
+
+      return documents.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error restoring project:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Trashed projects visible to `viewer`, most recently deleted first, with the time the
+   * retention purge will remove them
+   */
+  static async getTrash(
+    retentionDays: number,
+    page: number = 1,
+    limit: number = 10,
+    viewer?: Pick<User, 'id' | 'role'>
+  ): Promise<{ projects: Project[], total: number }> {
+    const client = await pgPool.connect();
+    try {
+      const offset = (page - 1) * limit;
+      const qb = new QueryBuilder().where('p.deleted_at IS NOT NULL');
+      this.applyVisibility(qb, viewer);
+
+      const countResult = await client.query(
+        `SELECT COUNT(*) FROM projects p ${qb.buildWhere()}`,
+        qb.getValues()
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT p.*, u.email as created_by_email, du.email as deleted_by_email,
+               COUNT(d.id) as document_count,
+               p.deleted_at + make_interval(days => ${qb.param(retentionDays)}) as purge_at
+        FROM projects p
+        LEFT JOIN users u ON p.created_by = u.id
+        LEFT JOIN users du ON p.deleted_by = du.id
+        LEFT JOIN documents d ON p.id = d.project_id AND d.deleted_at = p.deleted_at
+        ${qb.buildWhere()}
+        GROUP BY p.id, u.email, du.email
+        ORDER BY p.deleted_at DESC
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+
+      return {
+        projects: result.rows,
+        total
+      };
+    } catch (error) {
+      logger.error('Error getting trashed projects:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ids of projects that have been in the trash for longer than `retentionDays`, except
+   * those under legal hold
+   */
+  static async getExpiredTrash(retentionDays: number): Promise<number[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT p.id
+        FROM projects p
+        WHERE p.deleted_at < NOW() - make_interval(days => $1)
+          AND p.legal_hold = false
+          AND NOT EXISTS (SELECT 1 FROM documents d WHERE d.project_id = p.id AND d.legal_hold = true)
+        ORDER BY p.id ASC
+      `;
+
+      const result = await client.query(query, [retentionDays]);
+      return result.rows.map((row) => row.id);
+    } catch (error) {
+      logger.error('Error getting expired project trash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Place or lift a legal hold on a project; each change is recorded in legal_hold_events
+   */
+  static async setLegalHold(id: number, hold: boolean, reason: string | null, userId: number): Promise<Project | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE projects
+        SET legal_hold = $2,
+            legal_hold_reason = CASE WHEN $2 THEN $3 ELSE NULL END,
+            legal_hold_by = CASE WHEN $2 THEN $4::int ELSE NULL END,
+            legal_hold_at = CASE WHEN $2 THEN NOW() ELSE NULL END,
+            updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `;
+
+      await client.query('BEGIN');
+      const result = await client.query(query, [id, hold, reason, userId]);
+      if (result.rows[0]) {
+        await client.query(
+          `INSERT INTO legal_hold_events (project_id, action, reason, user_id) VALUES ($1, $2, $3, $4)`,
+          [id, hold ? 'placed' : 'lifted', reason, userId]
+        );
+      }
+      await client.query('COMMIT');
+      logger.info(`Legal hold ${hold ? 'placed on' : 'lifted from'} project: ${id}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error setting project legal hold:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Whether the project or any of its documents (including trashed ones) is under legal hold
+   */
+  static async hasLegalHold(id: number): Promise<boolean> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        SELECT EXISTS (SELECT 1 FROM projects WHERE id = $1 AND legal_hold = true)
+            OR EXISTS (SELECT 1 FROM documents WHERE project_id = $1 AND legal_hold = true) AS held
+      `;
+
+      const result = await client.query(query, [id]);
+      return result.rows[0].held;
+    } catch (error) {
+      logger.error('Error checking project legal hold:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Permanently delete a project; documents still assigned to it are kept unassigned
+   */
+  static async purgeProject(id: number): Promise<void> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
       await client.query('UPDATE documents SET project_id = NULL WHERE project_id = $1', [id]);
-      
-      // Then delete the project
-      const query = `DELETE FROM projects WHERE id = $1`;
-      await client.query(query, [id]);
-      logger.info(`Project deleted: ${id}`);
+      await client.query('DELETE FROM projects WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      logger.info(`Project permanently deleted: ${id}`);
     } catch (error) {
-      logger.error('Error deleting project:', error);
+      await client.query('ROLLBACK');
+      logger.error('Error permanently deleting project:', error);
       throw error;
     } finally {
       client.release();
     }
   }
 
-  static async addProjectMember(projectId: number, userId: number, role: string = 'member'): Promise<void> {
+  /**
+   * Add a member to a project that is not in the trash, or change their role; returns false
+   * when there is no such project
+   */
+  static async addProjectMember(projectId: number, userId: number, role: string = 'member'): Promise<boolean> {
     const client = await pgPool.connect();
     try {
       const query = `
         INSERT INTO project_members (project_id, user_id, role)
-        VALUES ($1, $2, $3)
+        SELECT $1, $2, $3
+        WHERE EXISTS (SELECT 1 FROM projects WHERE id = $1 AND deleted_at IS NULL)
         ON CONFLICT (project_id, user_id) DO UPDATE SET role = $3
       `;
       
-      await client.query(query, [projectId, userId, role]);
+      const result = await client.query(query, [projectId, userId, role]);
       logger.info(`User ${userId} added to project ${projectId} as ${role}`);
+
+      return (result.rowCount || 0) > 0;
     } catch (error) {
       logger.error('Error adding project member:', error);
       throw error;
@@ -228,12 +438,21 @@ export class ProjectModel {
     }
   }
 
-  static async removeProjectMember(projectId: number, userId: number): Promise<void> {
+  /**
+   * Remove a member from a project that is not in the trash; returns false when nothing was removed
+   */
+  static async removeProjectMember(projectId: number, userId: number): Promise<boolean> {
     const client = await pgPool.connect();
     try {
-      const query = `DELETE FROM project_members WHERE project_id = $1 AND user_id = $2`;
-      await client.query(query, [projectId, userId]);
+      const query = `
+        DELETE FROM project_members pm
+        USING projects p
+        WHERE pm.project_id = p.id AND p.id = $1 AND p.deleted_at IS NULL AND pm.user_id = $2
+      `;
+      const result = await client.query(query, [projectId, userId]);
       logger.info(`User ${userId} removed from project ${projectId}`);
+
+      return (result.rowCount || 0) > 0;
     } catch (error) {
       logger.error('Error removing project member:', error);
       throw error;
@@ -263,6 +482,34 @@ export class ProjectModel {
     }
   }
 
+  static async getMemberRole(projectId: number, userId: number): Promise<string | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `SELECT role FROM project_members WHERE project_id = $1 AND user_id = $2`;
+      const result = await client.query(query, [projectId, userId]);
+      return result.rows[0]?.role || null;
+    } catch (error) {
+      logger.error('Error getting project member role:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getUserProjectIds(userId: number): Promise<number[]> {
+    const client = await pgPool.connect();
+    try {
+      const query = `SELECT project_id FROM project_members WHERE user_id = $1`;
+      const result = await client.query(query, [userId]);
+      return result.rows.map((row) => row.project_id);
+    } catch (error) {
+      logger.error('Error getting user project IDs:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   static async calculateProjectProgress(projectId: number): Promise<number> {
     const client = await pgPool.connect();
     try {
@@ -271,15 +518,16 @@ export class ProjectModel {
           COUNT(*) as total_documents,
           COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_documents
         FROM documents 
-        WHERE project_id = $1
+        WHERE project_id = $1 AND deleted_at IS NULL
       `;
       
       const result = await client.query(query, [projectId]);
-      const { total_documents, completed_documents } = result.rows[0];
+      const totalDocuments = parseInt(result.rows[0].total_documents, 10);
+      const completedDocuments = parseInt(result.rows[0].completed_documents, 10);
       
-      if (total_documents === 0) return 0;
+      if (totalDocuments === 0) return 0;
       
-      const progress = Math.round((completed_documents / total_documents) * 100);
+      const progress = Math.round((completedDocuments / totalDocuments) * 100);
       
       // Update project progress
       await client.query(
@@ -296,19 +544,23 @@ export class ProjectModel {
     }
   }
 
-  static async getProjectStats(): Promise<any> {
+  static async getProjectStats(viewer?: Pick<User, 'id' | 'role'>): Promise<any> {
     const client = await pgPool.connect();
     try {
+      const qb = new QueryBuilder().where('p.deleted_at IS NULL');
+      this.applyVisibility(qb, viewer);
+
       const query = `
         SELECT 
           COUNT(*) as total_projects,
-          COUNT(CASE WHEN status = 'active' THEN 1 END) as active_projects,
-          COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_projects,
-          AVG(progress) as avg_progress
-        FROM projects
+          COUNT(CASE WHEN p.status = 'active' THEN 1 END) as active_projects,
+          COUNT(CASE WHEN p.status = 'completed' THEN 1 END) as completed_projects,
+          AVG(p.progress) as avg_progress
+        FROM projects p
+        ${qb.buildWhere()}
       `;
       
-      const result = await client.query(query);
+      const result = await client.query(query, qb.getValues());
       return result.rows[0];
     } catch (error) {
       logger.error('Error getting project stats:', error);
@@ -317,4 +569,4 @@ export class ProjectModel {
       client.release();
     }
   }
-}
\ No newline at end of file
+}
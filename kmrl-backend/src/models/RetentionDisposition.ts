@@ -0,0 +1,174 @@
+import { pgPool } from '../config/database';
+import { RetentionDisposition } from '../types';
+import logger from '../utils/logger';
+import { QueryBuilder } from '../utils/queryBuilder';
+
+// End of the retention period of document `d` under the policy of its classification `c`;
+// NULL when the policy counts from a metadata date the document does not have
+const RETENTION_DUE_AT = `(
+  CASE WHEN c.retention_from = 'metadata'
+    THEN metadata_date(d.metadata->>c.retention_metadata_key)
+    ELSE d.created_at::date
+  END + make_interval(years => c.retention_years)
+)::date`;
+
+export class RetentionDispositionModel {
+  /**
+   * List documents past their retention period for disposition approval. Documents under
+   * legal hold or in the trash are skipped, as are documents already listed and those a
+   * reviewer chose to retain for the same due date. Returns the number of newly listed documents.
+   */
+  static async queueDue(): Promise<number> {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Open entries for documents deleted since they were listed are moot
+      await client.query(
+        `DELETE FROM retention_dispositions r
+         WHERE r.status = 'pending' AND NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = r.document_id)`
+      );
+
+      const query = `
+        WITH due AS (
+          SELECT d.id, d.original_filename, d.ai_classification, d.project_id, c.retention_years,
+                 ${RETENTION_DUE_AT} AS retention_due_at
+          FROM documents d
+          JOIN document_classifications c ON c.name = d.ai_classification
+          LEFT JOIN projects p ON d.project_id = p.id
+          WHERE c.retention_years IS NOT NULL
+            AND d.deleted_at IS NULL
+            AND d.legal_hold = false
+            AND p.legal_hold IS NOT TRUE
+        )
+        INSERT INTO retention_dispositions (
+          document_id, original_filename, classification, project_id, retention_years, retention_due_at
+        )
+        SELECT due.id, due.original_filename, due.ai_classification, due.project_id,
+               due.retention_years, due.retention_due_at
+        FROM due
+        WHERE due.retention_due_at <= CURRENT_DATE
+          AND NOT EXISTS (
+            SELECT 1 FROM retention_dispositions r
+            WHERE r.document_id = due.id
+              AND (r.status = 'pending' OR (r.status = 'rejected' AND r.retention_due_at = due.retention_due_at))
+          )
+        ON CONFLICT (document_id) WHERE status = 'pending' DO NOTHING
+      `;
+
+      const result = await client.query(query);
+      await client.query('COMMIT');
+
+      return result.rowCount || 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error listing documents past retention:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDispositions(
+    status: RetentionDisposition['status'] | undefined,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ dispositions: RetentionDisposition[]; total: number }> {
+    const client = await pgPool.connect();
+    try {
+      const offset = (page - 1) * limit;
+      const qb = new QueryBuilder().whereEquals('r.status', status);
+      const whereClause = qb.buildWhere();
+
+      const countResult = await client.query(
+        `SELECT COUNT(*) FROM retention_dispositions r ${whereClause}`,
+        qb.getValues()
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      // Open entries are worked oldest due first; decided ones newest first
+      const query = `
+        SELECT r.*, p.name as project_name, u.email as decided_by_email,
+               (d.legal_hold OR p.legal_hold IS TRUE) as legal_hold
+        FROM retention_dispositions r
+        LEFT JOIN documents d ON r.document_id = d.id
+        LEFT JOIN projects p ON r.project_id = p.id
+        LEFT JOIN users u ON r.decided_by = u.id
+        ${whereClause}
+        ORDER BY ${status === 'pending' ? 'r.retention_due_at ASC, r.id ASC' : 'COALESCE(r.decided_at, r.created_at) DESC'}
+        LIMIT ${qb.param(limit)} OFFSET ${qb.param(offset)}
+      `;
+
+      const result = await client.query(query, qb.getValues());
+
+      return {
+        dispositions: result.rows,
+        total
+      };
+    } catch (error) {
+      logger.error('Error getting retention dispositions:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number): Promise<RetentionDisposition | null> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query('SELECT * FROM retention_dispositions WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error finding retention disposition:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record the decision on an open disposition; returns null when it was already decided
+   */
+  static async decide(
+    id: number,
+    status: 'approved' | 'rejected',
+    decidedBy: number,
+    note: string | null
+  ): Promise<RetentionDisposition | null> {
+    const client = await pgPool.connect();
+    try {
+      const query = `
+        UPDATE retention_dispositions
+        SET status = $2, decided_by = $3, decided_at = NOW(), decision_note = $4
+        WHERE id = $1 AND status = 'pending'
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [id, status, decidedBy, note]);
+      logger.info(`Retention disposition ${id} ${status}`);
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error deciding retention disposition:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async markDisposed(id: number): Promise<RetentionDisposition | null> {
+    const client = await pgPool.connect();
+    try {
+      const result = await client.query(
+        'UPDATE retention_dispositions SET disposed_at = NOW() WHERE id = $1 RETURNING *',
+        [id]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error marking retention disposition as disposed:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
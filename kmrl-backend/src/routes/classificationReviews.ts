@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { ClassificationReviewController } from '../controllers/ClassificationReviewController';
+import { authenticateFirebaseToken, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// Reviewing classifications is limited to managers (and admins)
+router.use(authenticateFirebaseToken, authorizeRoles('admin', 'manager'));
+
+// List reviews (pending by default)
+router.get(
+  '/',
+  validateAndHandle(ClassificationReviewController.listValidation),
+  ClassificationReviewController.listReviews
+);
+
+// Measured accuracy of reviewed predictions
+router.get('/stats', ClassificationReviewController.getStats);
+
+// Accept the predicted label
+router.post(
+  '/:id/accept',
+  validateAndHandle(ClassificationReviewController.acceptValidation),
+  ClassificationReviewController.acceptReview
+);
+
+// Override the predicted label
+router.post(
+  '/:id/override',
+  validateAndHandle(ClassificationReviewController.overrideValidation),
+  ClassificationReviewController.overrideReview
+);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { ClassificationRuleController } from '../controllers/ClassificationRuleController';
+import { authenticateFirebaseToken, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// Rule management is limited to admins
+router.use(authenticateFirebaseToken, authorizeRoles('admin'));
+
+// List rules
+router.get(
+  '/',
+  validateAndHandle(ClassificationRuleController.listValidation),
+  ClassificationRuleController.listRules
+);
+
+// Show which rules fire for sample text
+router.post(
+  '/dry-run',
+  validateAndHandle(ClassificationRuleController.dryRunValidation),
+  ClassificationRuleController.dryRun
+);
+
+// Create rule
+router.post(
+  '/',
+  validateAndHandle(ClassificationRuleController.createValidation),
+  ClassificationRuleController.createRule
+);
+
+// Update rule
+router.put(
+  '/:id',
+  validateAndHandle(ClassificationRuleController.updateValidation),
+  ClassificationRuleController.updateRule
+);
+
+// Delete rule
+router.delete(
+  '/:id',
+  validateAndHandle(ClassificationRuleController.idValidation),
+  ClassificationRuleController.deleteRule
+);
+
+export default router;
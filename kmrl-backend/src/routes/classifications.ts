@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { ClassificationController } from '../controllers/ClassificationController';
+import { authenticateFirebaseToken, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// All catalog routes require authentication
+router.use(authenticateFirebaseToken);
+
+// List catalog categories
+router.get(
+  '/',
+  validateAndHandle(ClassificationController.listValidation),
+  ClassificationController.listClassifications
+);
+
+// Create category (admin only)
+router.post(
+  '/',
+  authorizeRoles('admin'),
+  validateAndHandle(ClassificationController.createValidation),
+  ClassificationController.createClassification
+);
+
+// Update category (admin only)
+router.put(
+  '/:id',
+  authorizeRoles('admin'),
+  validateAndHandle(ClassificationController.updateValidation),
+  ClassificationController.updateClassification
+);
+
+// Delete unused category (admin only)
+router.delete(
+  '/:id',
+  authorizeRoles('admin'),
+  validateAndHandle(ClassificationController.idValidation),
+  ClassificationController.deleteClassification
+);
+
+export default router;
@@ -0,0 +1,201 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { DocumentController } from '../controllers/DocumentController';
+import { DocumentVersionController } from '../controllers/DocumentVersionController';
+import { RetentionController } from '../controllers/RetentionController';
+import { TagController } from '../controllers/TagController';
+import { authenticateFirebaseToken, authorizeAnyDocumentAccess, authorizeDocumentAccess, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+import { uploadRateLimit } from '../middleware/security';
+import { upload, handleMulterError } from '../utils/fileUpload';
+
+const router = Router();
+
+// Accept up to 10 files and report multer errors as 400 responses
+const uploadFiles = (req: Request, res: Response, next: NextFunction): void => {
+  upload.array('files', 10)(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: handleMulterError(error),
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    next();
+  });
+};
+
+// Accept a single file (field name "file") for a new revision
+const uploadFile = (req: Request, res: Response, next: NextFunction): void => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: handleMulterError(error),
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    next();
+  });
+};
+
+// All document routes require authentication
+router.use(authenticateFirebaseToken);
+
+// Upload documents (multipart/form-data, field name "files")
+router.post(
+  '/',
+  uploadRateLimit,
+  uploadFiles,
+  validateAndHandle(DocumentController.uploadValidation),
+  DocumentController.uploadDocuments
+);
+
+// List documents with pagination and filters
+router.get(
+  '/',
+  validateAndHandle(DocumentController.listValidation),
+  DocumentController.listDocuments
+);
+
+// Documents flagged for manual OCR correction (same filters as the list)
+router.get(
+  '/ocr-review',
+  validateAndHandle(DocumentController.listValidation),
+  DocumentController.listOcrReviewQueue
+);
+
+// Get document details (project members only)
+router.get(
+  '/:id',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess(),
+  DocumentController.getDocument
+);
+
+// Per-page extracted text (project members only)
+router.get(
+  '/:id/pages',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess(),
+  DocumentController.getDocumentPages
+);
+
+// Extracted entities (project members only)
+router.get(
+  '/:id/entities',
+  validateAndHandle(DocumentController.entitiesValidation),
+  authorizeDocumentAccess(),
+  DocumentController.getDocumentEntities
+);
+
+// Download original file (project members only)
+router.get(
+  '/:id/download',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess(),
+  DocumentController.downloadDocument
+);
+
+// Submit corrected OCR text (uploader or project owner/manager)
+router.put(
+  '/:id/ocr',
+  validateAndHandle(DocumentController.ocrCorrectionValidation),
+  authorizeDocumentAccess('owner', 'manager'),
+  DocumentController.correctOcrText
+);
+
+// Get a short-lived signed download URL (project members only)
+router.get(
+  '/:id/download-url',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess(),
+  DocumentController.getDownloadUrl
+);
+
+// Revision history (project members only)
+router.get(
+  '/:id/versions',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess(),
+  DocumentVersionController.listVersions
+);
+
+// Text and entity changes between two revisions (project members only)
+router.get(
+  '/:id/versions/diff',
+  validateAndHandle(DocumentVersionController.diffValidation),
+  authorizeDocumentAccess(),
+  DocumentVersionController.compareVersions
+);
+
+// Upload a new revision (uploader or project owner/manager; multipart/form-data, field name "file")
+router.post(
+  '/:id/versions',
+  uploadRateLimit,
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess('owner', 'manager'),
+  uploadFile,
+  validateAndHandle(DocumentVersionController.changeNoteValidation),
+  DocumentVersionController.uploadRevision
+);
+
+// Download a past revision (project members only)
+router.get(
+  '/:id/versions/:version/download',
+  validateAndHandle(DocumentVersionController.versionValidation),
+  authorizeDocumentAccess(),
+  DocumentVersionController.downloadVersion
+);
+
+// Restore a past revision as current (uploader or project owner/manager)
+router.post(
+  '/:id/versions/:version/restore',
+  validateAndHandle([...DocumentVersionController.versionValidation, ...DocumentVersionController.changeNoteValidation]),
+  authorizeDocumentAccess('owner', 'manager'),
+  DocumentVersionController.restoreVersion
+);
+
+// Suggested tags from classification and extracted entities (project members only)
+router.get(
+  '/:id/tags/suggestions',
+  validateAndHandle(TagController.suggestionValidation),
+  authorizeDocumentAccess(),
+  TagController.getSuggestions
+);
+
+// Add tags to a document (project members only)
+router.post(
+  '/:id/tags',
+  validateAndHandle(TagController.documentTagsValidation),
+  authorizeDocumentAccess(),
+  TagController.addDocumentTags
+);
+
+// Remove a tag from a document (project members only)
+router.delete(
+  '/:id/tags/:tag',
+  validateAndHandle(TagController.documentTagValidation),
+  authorizeDocumentAccess(),
+  TagController.removeDocumentTag
+);
+
+// Place or lift a legal hold, also on a trashed document (admin/manager with access to the document)
+router.put(
+  '/:id/legal-hold',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(RetentionController.legalHoldValidation),
+  authorizeAnyDocumentAccess(),
+  RetentionController.setDocumentHold
+);
+
+// Move document to the trash (uploader or project owner/manager)
+router.delete(
+  '/:id',
+  validateAndHandle(DocumentController.idValidation),
+  authorizeDocumentAccess('owner', 'manager'),
+  DocumentController.deleteDocument
+);
+
+export default router;
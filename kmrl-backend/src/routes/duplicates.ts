@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { DuplicateController } from '../controllers/DuplicateController';
+import { authenticateFirebaseToken, authorizeDocumentAccess } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+router.use(authenticateFirebaseToken);
+
+// List duplicate clusters visible to the user
+router.get(
+  '/',
+  validateAndHandle(DuplicateController.listValidation),
+  DuplicateController.listClusters
+);
+
+// Cluster a document belongs to
+router.get(
+  '/:id',
+  validateAndHandle(DuplicateController.idValidation),
+  authorizeDocumentAccess(),
+  DuplicateController.getCluster
+);
+
+// Merge a duplicate into its original (moves the duplicate to the trash)
+router.post(
+  '/:id/merge',
+  validateAndHandle(DuplicateController.idValidation),
+  authorizeDocumentAccess('owner', 'manager'),
+  DuplicateController.mergeDuplicate
+);
+
+// Mark a flagged document as not a duplicate
+router.post(
+  '/:id/dismiss',
+  validateAndHandle(DuplicateController.idValidation),
+  authorizeDocumentAccess('owner', 'manager'),
+  DuplicateController.dismissDuplicate
+);
+
+export default router;
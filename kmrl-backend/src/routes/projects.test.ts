@@ -0,0 +1,84 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { ProjectModel } from '../models/Project';
+import { UserModel } from '../models/User';
+
+jest.mock('../services/FirebaseService', () => ({
+  FirebaseService: {
+    getInstance: () => ({
+      verifyIdToken: async (token: string) => ({ uid: token })
+    })
+  }
+}));
+jest.mock('../models/Project');
+jest.mock('../models/User');
+
+const mockedProjectModel = ProjectModel as jest.Mocked<typeof ProjectModel>;
+const mockedUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+const USERS: Record<string, { id: number; email: string; role: string }> = {
+  admin: { id: 1, email: 'admin@kmrl.demo', role: 'admin' },
+  manager: { id: 2, email: 'manager@kmrl.demo', role: 'manager' },
+  user: { id: 3, email: 'engineer@kmrl.demo', role: 'user' }
+};
+
+describe('PUT /api/projects/:id/legal-hold', () => {
+  const app = createApp();
+
+  // The bearer token doubles as the Firebase uid, which names the user above
+  const putHold = (token: string, body: Record<string, unknown>) =>
+    request(app).put('/api/projects/7/legal-hold').set('Authorization', `Bearer ${token}`).send(body);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedUserModel.findByFirebaseUid.mockImplementation(async (uid: string) => USERS[uid] as never);
+    mockedUserModel.updateLastLogin.mockResolvedValue(undefined as never);
+    mockedProjectModel.getMemberRole.mockResolvedValue(null);
+    mockedProjectModel.setLegalHold.mockImplementation(async (id: number, hold: boolean) => ({ id, legal_hold: hold }) as never);
+  });
+
+  it('rejects a manager who is not a member of the project', async () => {
+    const res = await putHold('manager', { hold: true, reason: 'Litigation' });
+
+    expect(res.status).toBe(403);
+    expect(mockedProjectModel.getMemberRole).toHaveBeenCalledWith(7, USERS.manager!.id);
+    expect(mockedProjectModel.setLegalHold).not.toHaveBeenCalled();
+  });
+
+  it('rejects users without a manager role before checking membership', async () => {
+    const res = await putHold('user', { hold: true });
+
+    expect(res.status).toBe(403);
+    expect(mockedProjectModel.getMemberRole).not.toHaveBeenCalled();
+    expect(mockedProjectModel.setLegalHold).not.toHaveBeenCalled();
+  });
+
+  it('lets a project manager place a hold but not lift it', async () => {
+    mockedProjectModel.getMemberRole.mockResolvedValue('manager');
+
+    const placed = await putHold('manager', { hold: true, reason: 'Litigation' });
+    expect(placed.status).toBe(200);
+    expect(mockedProjectModel.setLegalHold).toHaveBeenCalledWith(7, true, 'Litigation', USERS.manager!.id);
+
+    const lifted = await putHold('manager', { hold: false });
+    expect(lifted.status).toBe(403);
+    expect(mockedProjectModel.setLegalHold).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets a project owner lift a hold', async () => {
+    mockedProjectModel.getMemberRole.mockResolvedValue('owner');
+
+    const res = await putHold('manager', { hold: false });
+
+    expect(res.status).toBe(200);
+    expect(mockedProjectModel.setLegalHold).toHaveBeenCalledWith(7, false, null, USERS.manager!.id);
+  });
+
+  it('lets an admin lift a hold without being a member', async () => {
+    const res = await putHold('admin', { hold: false });
+
+    expect(res.status).toBe(200);
+    expect(mockedProjectModel.getMemberRole).not.toHaveBeenCalled();
+    expect(mockedProjectModel.setLegalHold).toHaveBeenCalledWith(7, false, null, USERS.admin!.id);
+  });
+});
@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { ProjectController } from '../controllers/ProjectController';
+import { RetentionController } from '../controllers/RetentionController';
+import { authenticateFirebaseToken, authorizeRoles, authorizeProjectRole } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// All project routes require authentication
+router.use(authenticateFirebaseToken);
+
+// List projects (members see their projects, admins all)
+router.get(
+  '/',
+  validateAndHandle(ProjectController.listValidation),
+  ProjectController.listProjects
+);
+
+// Aggregate statistics over the projects visible to the user
+router.get('/stats', ProjectController.getStats);
+
+// Create project (admin/manager only)
+router.post(
+  '/',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(ProjectController.createValidation),
+  ProjectController.createProject
+);
+
+// Get project details (project members)
+router.get(
+  '/:id',
+  validateAndHandle(ProjectController.idValidation),
+  authorizeProjectRole(),
+  ProjectController.getProject
+);
+
+// Update project (project owners/managers)
+router.put(
+  '/:id',
+  validateAndHandle(ProjectController.updateValidation),
+  authorizeProjectRole('owner', 'manager'),
+  ProjectController.updateProject
+);
+
+// Move project to the trash (admin/manager who owns the project)
+router.delete(
+  '/:id',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(ProjectController.idValidation),
+  authorizeProjectRole('owner'),
+  ProjectController.deleteProject
+);
+
+// Place or lift a legal hold on the project and its documents (admin/manager who is a project
+// owner/manager; lifting needs project ownership)
+router.put(
+  '/:id/legal-hold',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(RetentionController.legalHoldValidation),
+  authorizeProjectRole('owner', 'manager'),
+  RetentionController.setProjectHold
+);
+
+// Recompute progress from document processing status (project members)
+router.post(
+  '/:id/progress',
+  validateAndHandle(ProjectController.idValidation),
+  authorizeProjectRole(),
+  ProjectController.recomputeProgress
+);
+
+// List project members (project members)
+router.get(
+  '/:id/members',
+  validateAndHandle(ProjectController.idValidation),
+  authorizeProjectRole(),
+  ProjectController.getMembers
+);
+
+// Add or update a project member (project owners/managers)
+router.post(
+  '/:id/members',
+  validateAndHandle(ProjectController.addMemberValidation),
+  authorizeProjectRole('owner', 'manager'),
+  ProjectController.addMember
+);
+
+// Remove a project member (project owners/managers)
+router.delete(
+  '/:id/members/:userId',
+  validateAndHandle(ProjectController.removeMemberValidation),
+  authorizeProjectRole('owner', 'manager'),
+  ProjectController.removeMember
+);
+
+export default router;
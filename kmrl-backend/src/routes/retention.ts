@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { RetentionController } from '../controllers/RetentionController';
+import { authenticateFirebaseToken, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+router.use(authenticateFirebaseToken);
+
+// List documents past retention and disposition decisions (admin/manager only)
+router.get(
+  '/dispositions',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(RetentionController.listValidation),
+  RetentionController.listDispositions
+);
+
+// List documents past retention now (admin only)
+router.post(
+  '/dispositions/scan',
+  authorizeRoles('admin'),
+  RetentionController.scanRetention
+);
+
+// Approve a disposition, destroying the document (admin only)
+router.post(
+  '/dispositions/:id/approve',
+  authorizeRoles('admin'),
+  validateAndHandle(RetentionController.decisionValidation),
+  RetentionController.approveDisposition
+);
+
+// Retain the document instead (admin only)
+router.post(
+  '/dispositions/:id/reject',
+  authorizeRoles('admin'),
+  validateAndHandle(RetentionController.decisionValidation),
+  RetentionController.rejectDisposition
+);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/SearchController';
+import { authenticateFirebaseToken } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// Search requires authentication so results can be limited to the user's projects
+router.get(
+  '/',
+  authenticateFirebaseToken,
+  validateAndHandle(SearchController.searchValidation),
+  SearchController.search
+);
+
+export default router;
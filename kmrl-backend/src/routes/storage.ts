@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { StorageController } from '../controllers/StorageController';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+// Signed URLs for the local storage driver (the signature replaces authentication)
+router.get(
+  '/*',
+  validateAndHandle(StorageController.signedFileValidation),
+  StorageController.serveSignedFile
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/TagController';
+import { authenticateFirebaseToken, authorizeRoles } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+router.use(authenticateFirebaseToken);
+
+// Tags in use on documents visible to the user, most used first
+router.get(
+  '/',
+  validateAndHandle(TagController.listValidation),
+  TagController.listTags
+);
+
+// Add and remove tags on several documents (documents the user cannot see are skipped)
+router.post(
+  '/documents',
+  validateAndHandle(TagController.bulkValidation),
+  TagController.updateDocumentsTags
+);
+
+// Merge or rename tags across all documents (admin only)
+router.post(
+  '/merge',
+  authorizeRoles('admin'),
+  validateAndHandle(TagController.mergeValidation),
+  TagController.mergeTags
+);
+
+export default router;
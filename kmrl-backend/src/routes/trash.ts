@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/TrashController';
+import { authenticateFirebaseToken, authorizeProjectRole, authorizeRoles, authorizeTrashedDocumentAccess } from '../middleware/auth';
+import { validateAndHandle } from '../middleware/validation';
+
+const router = Router();
+
+router.use(authenticateFirebaseToken);
+
+// List trashed documents visible to the user
+router.get(
+  '/documents',
+  validateAndHandle(TrashController.listValidation),
+  TrashController.listDocuments
+);
+
+// Restore a trashed document (uploader or project owner/manager)
+router.post(
+  '/documents/:id/restore',
+  validateAndHandle(TrashController.idValidation),
+  authorizeTrashedDocumentAccess('owner', 'manager'),
+  TrashController.restoreDocument
+);
+
+// Permanently delete a trashed document (admin only)
+router.delete(
+  '/documents/:id',
+  authorizeRoles('admin'),
+  validateAndHandle(TrashController.idValidation),
+  authorizeTrashedDocumentAccess(),
+  TrashController.purgeDocument
+);
+
+// List trashed projects the user is a member of (admin/manager only)
+router.get(
+  '/projects',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(TrashController.listValidation),
+  TrashController.listProjects
+);
+
+// Restore a trashed project with its documents (admin/manager who owns the project)
+router.post(
+  '/projects/:id/restore',
+  authorizeRoles('admin', 'manager'),
+  validateAndHandle(TrashController.idValidation),
+  authorizeProjectRole('owner'),
+  TrashController.restoreProject
+);
+
+// Permanently delete a trashed project (admin only)
+router.delete(
+  '/projects/:id',
+  authorizeRoles('admin'),
+  validateAndHandle(TrashController.idValidation),
+  TrashController.purgeProject
+);
+
+export default router;
@@ -1,11 +1,35 @@
 import axios from 'axios';
 import config from '../config';
 import logger from '../utils/logger';
-import { AIClassificationResult } from '../types';
+import { AIClassificationResult, OCRPage, OCRResult } from '../types';
+import { detectLanguage, toTesseractLanguages } from '../utils/language';
+import { GroupedEntities, extractMentions, groupMentions } from '../utils/entities';
+import { ClassificationCatalog } from './ClassificationCatalog';
+import { RuleClassifier } from './RuleClassifier';
+import { TextClassifier } from './TextClassifier';
 import * as Tesseract from 'tesseract.js';
+import pdfParse from 'pdf-parse';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import os from 'os';
 import path from 'path';
 import fs from 'fs';
 
+const execFileAsync = promisify(execFile);
+
+// Pages with less embedded text than this are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Tesseract reports 0-100; everything we store is 0-1
+const toUnitConfidence = (confidence: number): number => Math.round(confidence * 100) / 10000;
+
+// Subset of the pdf.js page object handed to pdf-parse's pagerender hook
+interface PdfPageData {
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: { str: string; transform: number[] }[];
+  }>;
+}
+
 export class AIService {
   private static instance: AIService;
 
@@ -19,9 +43,10 @@ export class AIService {
   }
 
   /**
-   * Perform OCR on a document file
+   * Extract text from a document file, page by page where applicable.
+   * `languageSetting` is 'auto' or a Tesseract language list such as 'mal+eng'.
    */
-  static async performOCR(filePath: string): Promise<string> {
+  static async performOCR(filePath: string, languageSetting?: string | null): Promise<OCRResult> {
     try {
       logger.info(`Starting OCR for file: ${filePath}`);
       
@@ -32,31 +57,24 @@ export class AIService {
 
       // Get file extension to determine processing method
       const ext = path.extname(filePath).toLowerCase();
+      const languages = toTesseractLanguages(languageSetting || config.ai.defaultOcrLanguage);
       
       if (['.jpg', '.jpeg', '.png', '.bmp', '.tiff'].includes(ext)) {
-        // Use Tesseract.js for image files
-        const result = await Tesseract.recognize(filePath, 'eng', {
-          logger: (m) => {
-            if (m.status === 'recognizing text') {
-              logger.debug(`OCR progress: ${Math.round(m.progress * 100)}%`);
-            }
-          }
-        });
-        
-        const confidence = result.data.confidence;
-        if (confidence < config.ai.ocrConfidenceThreshold * 100) {
-          logger.warn(`OCR confidence (${confidence}%) below threshold`);
-        }
-        
-        return result.data.text;
+        const page = await this.withTesseractWorker(languages, (worker) => this.recognizePage(worker, filePath, 1));
+        return this.toOCRResult([page]);
       } else if (ext === '.pdf') {
-        // For PDF files, try to use external Python service or fallback
+        const result = await this.extractPdfText(filePath, languages);
+        if (result.text.trim()) {
+          return result;
+        }
+
+        // Nothing usable locally (e.g. no rasterizer installed), try the external service
         try {
-          return await this.performOCRViaPythonService(filePath);
+          const text = await this.performOCRViaPythonService(filePath);
+          return { text, confidence: null, language: detectLanguage(text), pages: [], needs_review: !text.trim() };
         } catch (error) {
-          logger.warn('Python OCR service failed, using fallback method');
-          // Fallback to basic PDF text extraction would go here
-          return '';
+          logger.warn('Python OCR service failed, no text could be extracted from PDF');
+          return result;
         }
       } else {
         throw new Error(`Unsupported file type for OCR: ${ext}`);
@@ -67,6 +85,142 @@ export class AIService {
     }
   }
 
+  /**
+   * Use the embedded text layer of each PDF page and OCR only pages without one
+   */
+  private static async extractPdfText(filePath: string, languages: string): Promise<OCRResult> {
+    const pageTexts: string[] = [];
+
+    await pdfParse(fs.readFileSync(filePath), {
+      // Pages are rendered sequentially, so push order matches page order
+      pagerender: async (pageData: PdfPageData) => {
+        const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        let lastY: number | undefined;
+        let text = '';
+
+        for (const item of textContent.items) {
+          text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+          lastY = item.transform[5];
+        }
+
+        pageTexts.push(text);
+        return text;
+      }
+    });
+
+    const pages: OCRPage[] = pageTexts.map((text, index) => ({
+      page_number: index + 1,
+      text: text.trim(),
+      confidence: 1,
+      source: 'text_layer'
+    }));
+
+    const scannedPages = pages.filter((page) => page.text.length < MIN_TEXT_LAYER_CHARS);
+    if (scannedPages.length > 0) {
+      logger.info(`OCR needed for ${scannedPages.length} of ${pages.length} PDF pages: ${filePath}`);
+
+      await this.withTesseractWorker(languages, async (worker) => {
+        for (const page of scannedPages) {
+          pages[page.page_number - 1] = await this.ocrPdfPage(worker, filePath, page);
+        }
+      });
+    }
+
+    return this.toOCRResult(pages);
+  }
+
+  /**
+   * Rasterize a single PDF page with pdftoppm and run Tesseract on it
+   */
+  private static async ocrPdfPage(worker: Tesseract.Worker, filePath: string, page: OCRPage): Promise<OCRPage> {
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'kmrl-ocr-'));
+    const outputPrefix = path.join(tempDir, 'page');
+
+    try {
+      await execFileAsync(config.ai.pdfRasterizerPath, [
+        '-f', page.page_number.toString(),
+        '-l', page.page_number.toString(),
+        '-r', config.ai.ocrDpi.toString(),
+        '-png',
+        '-singlefile',
+        filePath,
+        outputPrefix
+      ], { timeout: 60000 });
+
+      return await this.recognizePage(worker, `${outputPrefix}.png`, page.page_number);
+    } catch (error) {
+      // Keep whatever the text layer had rather than failing the whole document
+      logger.warn(`Could not OCR page ${page.page_number} of ${filePath}:`, error);
+      return page;
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private static async recognizePage(worker: Tesseract.Worker, imagePath: string, pageNumber: number): Promise<OCRPage> {
+    const result = await worker.recognize(imagePath);
+    const confidence = result.data.confidence;
+
+    if (confidence < config.ai.ocrConfidenceThreshold * 100) {
+      logger.warn(`OCR confidence (${confidence}%) below threshold for page ${pageNumber}`);
+    }
+
+    return {
+      page_number: pageNumber,
+      text: result.data.text.trim(),
+      confidence: toUnitConfidence(confidence),
+      source: 'ocr',
+      words: result.data.words.map((word) => ({
+        text: word.text,
+        confidence: toUnitConfidence(word.confidence),
+        bbox: word.bbox
+      }))
+    };
+  }
+
+  // One worker per document; loading traineddata is the expensive part
+  private static async withTesseractWorker<T>(
+    languages: string,
+    work: (worker: Tesseract.Worker) => Promise<T>
+  ): Promise<T> {
+    // Prefer local uncompressed traineddata; otherwise tesseract.js downloads it
+    const useLocalData = fs.existsSync(config.ai.tessdataPath);
+    const worker = await Tesseract.createWorker(languages, undefined, {
+      ...(useLocalData && { langPath: path.resolve(config.ai.tessdataPath), gzip: false, cacheMethod: 'none' }),
+      logger: (m) => {
+        if (m.status === 'recognizing text') {
+          logger.debug(`OCR progress: ${Math.round(m.progress * 100)}%`);
+        }
+      }
+    });
+
+    try {
+      return await work(worker);
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  // Document confidence is the mean over pages that produced any text; a single
+  // poor page or a scan without any recognizable text is enough to need review
+  private static toOCRResult(pages: OCRPage[]): OCRResult {
+    const scored = pages.filter((page) => page.text && page.confidence !== null);
+    const confidence = scored.length > 0
+      ? scored.reduce((sum, page) => sum + (page.confidence as number), 0) / scored.length
+      : null;
+
+    const text = pages.map((page) => page.text).filter(Boolean).join('\n\n');
+    const threshold = config.ai.ocrConfidenceThreshold;
+
+    return {
+      text,
+      confidence: confidence === null ? null : Math.round(confidence * 10000) / 10000,
+      language: detectLanguage(text),
+      pages,
+      needs_review: !text || scored.some((page) => (page.confidence as number) < threshold)
+    };
+  }
+
   /**
    * Classify document using AI service
    */
@@ -75,12 +229,21 @@ export class AIService {
       logger.info(`Starting classification for document: ${path.basename(filePath)}`);
       
       // Try to use external Python ML service
+      let result: AIClassificationResult;
       try {
-        return await this.classifyViaPythonService(ocrText, filePath);
+        result = await this.classifyViaPythonService(ocrText, filePath);
       } catch (error) {
-        logger.warn('Python classification service failed, using fallback');
-        return this.fallbackClassification(ocrText, filePath);
+        // Offline model trained on reviewed documents first, keyword rules last
+        logger.warn('Python classification service failed, using offline classifier');
+        result = this.offlineClassification(ocrText) || await this.fallbackClassification(ocrText, filePath);
       }
+
+      // Both classifiers have their own vocabularies; store catalog names only
+      return {
+        ...result,
+        raw_label: result.document_type,
+        document_type: await ClassificationCatalog.normalize(result.document_type)
+      };
     } catch (error) {
       logger.error('Document classification failed:', error);
       throw error;
@@ -165,116 +328,55 @@ export class AIService {
   }
 
   /**
-   * Fallback classification using simple rules
+   * Classification with the in-process model; null when no model is trained or no term is known
    */
-  private static fallbackClassification(ocrText: string, filePath: string): AIClassificationResult {
+  private static offlineClassification(ocrText: string): AIClassificationResult | null {
     const startTime = Date.now();
-    const filename = path.basename(filePath).toLowerCase();
-    const extension = path.extname(filePath).substring(1).toLowerCase();
-    const text = ocrText.toLowerCase();
-    
-    let documentType = 'unknown';
-    let confidence = 0.5; // Default low confidence for fallback
-    
-    // Simple rule-based classification
-    if (extension === 'pdf' || filename.includes('report')) {
-      documentType = 'report';
-      confidence = 0.6;
-    } else if (filename.includes('invoice') || text.includes('invoice') || text.includes('bill')) {
-      documentType = 'invoice';
-      confidence = 0.7;
-    } else if (filename.includes('contract') || text.includes('agreement') || text.includes('contract')) {
-      documentType = 'contract';
-      confidence = 0.7;
-    } else if (filename.includes('drawing') || extension === 'dwg' || extension === 'dxf') {
-      documentType = 'technical_drawing';
-      confidence = 0.8;
-    } else if (['jpg', 'jpeg', 'png', 'bmp', 'tiff'].includes(extension)) {
-      documentType = 'image';
-      confidence = 0.6;
-    } else if (['doc', 'docx'].includes(extension)) {
-      documentType = 'document';
-      confidence = 0.6;
-    } else if (extension === 'xlsx') {
-      documentType = 'spreadsheet';
-      confidence = 0.7;
+    const prediction = TextClassifier.classify(ocrText);
+    if (!prediction) {
+      return null;
     }
-    
-    const processingTime = Date.now() - startTime;
-    
-    logger.info(`Fallback classification: ${documentType} (${confidence})`);
-    
+
+    logger.info(`Offline classification: ${prediction.label} (${prediction.confidence})`);
+
     return {
-      document_type: documentType,
-      confidence,
-      processing_time: processingTime,
-      entities: {
-        dates: [],
-        amounts: [],
-        project_codes: []
-      }
+      document_type: prediction.label,
+      confidence: prediction.confidence,
+      processing_time: Date.now() - startTime,
+      entities: this.extractEntities(ocrText)
     };
   }
 
   /**
-   * Extract entities from OCR text
+   * Fallback classification using the configurable rule set
    */
-  static extractEntities(ocrText: string): {
-    dates: string[];
-    amounts: string[];
-    project_codes: string[];
-  } {
-    const entities = {
-      dates: [] as string[],
-      amounts: [] as string[],
-      project_codes: [] as string[]
-    };
+  private static async fallbackClassification(ocrText: string, filePath: string): Promise<AIClassificationResult> {
+    const startTime = Date.now();
+    const entities = this.extractEntities(ocrText);
 
-    // Extract dates (basic patterns)
-    const datePatterns = [
-      /\d{1,2}\/\d{1,2}\/\d{4}/g,
-      /\d{4}-\d{1,2}-\d{1,2}/g,
-      /\d{1,2}-\d{1,2}-\d{4}/g
-    ];
-    
-    datePatterns.forEach(pattern => {
-      const matches = ocrText.match(pattern);
-      if (matches) {
-        entities.dates.push(...matches);
-      }
+    const evaluation = await RuleClassifier.classify({
+      text: ocrText,
+      filename: path.basename(filePath),
+      entities
     });
 
-    // Extract amounts (currency patterns)
-    const amountPatterns = [
-      /\$[\d,]+\.?\d*/g,
-      /USD\s*[\d,]+\.?\d*/g,
-      /₹[\d,]+\.?\d*/g,
-      /INR\s*[\d,]+\.?\d*/g
-    ];
-    
-    amountPatterns.forEach(pattern => {
-      const matches = ocrText.match(pattern);
-      if (matches) {
-        entities.amounts.push(...matches);
-      }
-    });
+    const processingTime = Date.now() - startTime;
 
-    // Extract project codes (assuming format like PROJ-001, KM-2024-001, etc.)
-    const projectCodePatterns = [
-      /[A-Z]{2,4}-\d{3,4}/g,
-      /[A-Z]{2,4}-\d{4}-\d{3}/g,
-      /PROJ-\d+/g,
-      /KM-\d+-\d+/g
-    ];
-    
-    projectCodePatterns.forEach(pattern => {
-      const matches = ocrText.match(pattern);
-      if (matches) {
-        entities.project_codes.push(...matches);
-      }
-    });
+    logger.info(`Fallback classification: ${evaluation.document_type} (${evaluation.confidence})`);
+
+    return {
+      document_type: evaluation.document_type,
+      confidence: evaluation.confidence,
+      processing_time: processingTime,
+      entities
+    };
+  }
 
-    return entities;
+  /**
+   * Extract entities from OCR text
+   */
+  static extractEntities(ocrText: string): GroupedEntities {
+    return groupMentions(extractMentions(ocrText));
   }
 
   /**
@@ -283,10 +385,12 @@ export class AIService {
   static async healthCheck(): Promise<{
     pythonService: boolean;
     tesseract: boolean;
+    offlineClassifier: string | null;
   }> {
     const health = {
       pythonService: false,
-      tesseract: true // Tesseract.js is always available
+      tesseract: true, // Tesseract.js is always available
+      offlineClassifier: TextClassifier.getModel()?.version || null
     };
 
     // Check Python service
@@ -0,0 +1,65 @@
+import { DocumentClassificationModel } from '../models/DocumentClassification';
+import { DocumentClassification } from '../types';
+import logger from '../utils/logger';
+
+// Catch-all category for labels that match nothing in the catalog
+export const FALLBACK_CLASSIFICATION = 'Other';
+
+// The catalog changes rarely; admin edits invalidate the cache immediately
+const CATALOG_TTL_MS = 5 * 60 * 1000;
+
+// 'Technical Drawing', 'technical-drawing' and 'technical_drawing' compare equal
+const normalizeKey = (label: string): string => label.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+export class ClassificationCatalog {
+  private static cache: { entries: DocumentClassification[]; loadedAt: number } | null = null;
+
+  /**
+   * Active catalog entries (cached)
+   */
+  static async getActive(): Promise<DocumentClassification[]> {
+    const now = Date.now();
+    if (!this.cache || now - this.cache.loadedAt > CATALOG_TTL_MS) {
+      this.cache = { entries: await DocumentClassificationModel.getAll(), loadedAt: now };
+    }
+    return this.cache.entries;
+  }
+
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Catalog name for a label by name or alias, or null when nothing matches
+   */
+  static async resolve(label: string | null | undefined): Promise<string | null> {
+    if (!label) {
+      return null;
+    }
+
+    const key = normalizeKey(label);
+    const entry = (await this.getActive()).find((candidate) =>
+      normalizeKey(candidate.name) === key || candidate.aliases.some((alias) => normalizeKey(alias) === key)
+    );
+
+    return entry ? entry.name : null;
+  }
+
+  /**
+   * Map a classifier label onto the catalog, falling back to the catch-all category
+   */
+  static async normalize(label: string | null | undefined): Promise<string> {
+    const resolved = await this.resolve(label);
+    if (!resolved) {
+      logger.warn(`Classification label not in catalog, using ${FALLBACK_CLASSIFICATION}: ${label}`);
+    }
+    return resolved || FALLBACK_CLASSIFICATION;
+  }
+
+  /**
+   * Whether a label is exactly the name of an active category
+   */
+  static async isActiveName(label: string): Promise<boolean> {
+    return (await this.getActive()).some((entry) => entry.name === label);
+  }
+}
@@ -0,0 +1,118 @@
+import { DocumentDuplicateModel, DuplicateCandidate } from '../models/DocumentDuplicate';
+import { DuplicateMatch, DuplicateType } from '../types';
+import {
+  differenceHash,
+  fromSignedHash,
+  hammingDistance,
+  hashBands,
+  sha256File,
+  similarity,
+  simhash,
+  toSignedHash
+} from '../utils/fingerprint';
+import logger from '../utils/logger';
+
+// A near duplicate differs in at most this many of the 64 hash bits. Each limit is below the
+// band count, so every pair within it shares a band and the indexed lookup cannot miss it.
+const TEXT_BANDS = 4;
+const TEXT_MAX_DISTANCE = 3;
+const IMAGE_BANDS = 8;
+const IMAGE_MAX_DISTANCE = 6;
+
+export class DuplicateDetector {
+  /**
+   * Fingerprint a newly ingested file and flag it when it repeats an earlier document:
+   * byte-identical files first, then visually similar images
+   */
+  static async checkFile(documentId: number, filePath: string, mimeType: string): Promise<DuplicateMatch | null> {
+    const contentHash = await sha256File(filePath);
+
+    let imageHash: bigint | null = null;
+    if (mimeType.startsWith('image/')) {
+      try {
+        imageHash = await differenceHash(filePath);
+      } catch (error) {
+        logger.warn(`Could not compute image hash for document ${documentId}:`, error);
+      }
+    }
+
+    await DocumentDuplicateModel.saveFingerprint(documentId, {
+      content_hash: contentHash,
+      ...(imageHash !== null && {
+        image_hash: toSignedHash(imageHash),
+        image_bands: hashBands(imageHash, IMAGE_BANDS)
+      })
+    });
+
+    const [exact] = await DocumentDuplicateModel.findByContentHash(documentId, contentHash);
+    if (exact) {
+      return this.link(documentId, { original_id: exact.original_id, duplicate_type: 'exact', similarity: 1 });
+    }
+
+    if (imageHash === null) {
+      return null;
+    }
+
+    const candidates = await DocumentDuplicateModel.findByBands(documentId, 'image', hashBands(imageHash, IMAGE_BANDS));
+    const match = this.nearest(candidates, imageHash, IMAGE_MAX_DISTANCE, 'near_image');
+    return match ? this.link(documentId, match) : null;
+  }
+
+  /**
+   * Fingerprint the OCR text of a document and flag it when the text nearly matches an
+   * earlier document's. Documents already flagged by `checkFile` are only fingerprinted.
+   */
+  static async checkText(documentId: number, text: string, alreadyFlagged: boolean = false): Promise<DuplicateMatch | null> {
+    const textHash = simhash(text);
+    if (textHash === null) {
+      return null;
+    }
+
+    const bands = hashBands(textHash, TEXT_BANDS);
+    await DocumentDuplicateModel.saveFingerprint(documentId, {
+      text_simhash: toSignedHash(textHash),
+      text_bands: bands
+    });
+
+    if (alreadyFlagged) {
+      return null;
+    }
+
+    const candidates = await DocumentDuplicateModel.findByBands(documentId, 'text', bands);
+    const match = this.nearest(candidates, textHash, TEXT_MAX_DISTANCE, 'near_text');
+    return match ? this.link(documentId, match) : null;
+  }
+
+  // Closest candidate within `maxDistance`; ties go to the oldest cluster
+  private static nearest(
+    candidates: DuplicateCandidate[],
+    hash: bigint,
+    maxDistance: number,
+    type: DuplicateType
+  ): DuplicateMatch | null {
+    let best: { candidate: DuplicateCandidate; distance: number } | null = null;
+
+    for (const candidate of candidates) {
+      const distance = hammingDistance(hash, fromSignedHash(candidate.hash));
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { candidate, distance };
+      }
+    }
+
+    return best
+      ? { original_id: best.candidate.original_id, duplicate_type: type, similarity: similarity(best.distance) }
+      : null;
+  }
+
+  // The older document stays the original. A match with a newer cluster (whose file finished
+  // processing first) moves that cluster under this document.
+  private static async link(documentId: number, match: DuplicateMatch): Promise<DuplicateMatch> {
+    if (match.original_id < documentId) {
+      await DocumentDuplicateModel.link(documentId, match.original_id, match.duplicate_type, match.similarity);
+      return match;
+    }
+
+    await DocumentDuplicateModel.link(match.original_id, documentId, match.duplicate_type, match.similarity);
+    return { ...match, original_id: documentId };
+  }
+}
@@ -0,0 +1,251 @@
+import { Client as ElasticsearchClient } from 'elasticsearch';
+import { ElasticsearchService, INDEX_MAPPING_VERSION } from './ElasticsearchService';
+import { DocumentModel } from '../models/Document';
+import { Document } from '../types';
+
+jest.mock('../models/Document');
+
+const mockedDocumentModel = DocumentModel as jest.Mocked<typeof DocumentModel>;
+
+type Params = Record<string, unknown> & { ignore?: number[] };
+
+const notFound = (message: string) => Object.assign(new Error(message), { status: 404 });
+
+/**
+ * In-memory stand-in for the subset of the legacy elasticsearch client the service uses.
+ * Aliases resolve to a single index for writes, like Elasticsearch without a write index.
+ */
+class FakeElasticsearchClient {
+  readonly indexData = new Map<string, Map<string, Record<string, unknown>>>();
+  readonly aliases = new Map<string, Set<string>>();
+  readonly calls: string[] = [];
+  // Runs before each bulk request, to simulate writes made while a reindex is running
+  beforeBulk: (() => Promise<void>) | null = null;
+
+  readonly indices = {
+    existsAlias: async ({ name }: { name: string }) => (this.aliases.get(name)?.size || 0) > 0,
+    exists: async ({ index }: { index: string }) => this.indexData.has(index),
+    create: async ({ index }: { index: string }) => {
+      this.calls.push(`create ${index}`);
+      this.indexData.set(index, new Map());
+    },
+    putAlias: async ({ index, name }: { index: string; name: string }) => {
+      this.calls.push(`alias ${name} -> ${index}`);
+      this.aliases.set(name, new Set([...(this.aliases.get(name) || []), index]));
+    },
+    getAlias: async ({ name }: { name: string }) => {
+      const indices = this.aliases.get(name);
+      if (!indices || indices.size === 0) throw notFound(`alias ${name} missing`);
+      return Object.fromEntries([...indices].map((index) => [index, { aliases: { [name]: {} } }]));
+    },
+    updateAliases: async ({ body }: { body: { actions: Record<string, { index: string; alias: string }>[] } }) => {
+      for (const action of body.actions) {
+        const [type, { index, alias }] = Object.entries(action)[0]!;
+        this.calls.push(`${type} alias ${alias} -> ${index}`);
+        const indices = this.aliases.get(alias) || new Set<string>();
+        if (type === 'add') indices.add(index);
+        else indices.delete(index);
+        this.aliases.set(alias, indices);
+      }
+    },
+    delete: async ({ index, ignore }: Params & { index: string }) => {
+      this.calls.push(`delete ${index}`);
+      if (!this.indexData.delete(index) && !ignore?.includes(404)) throw notFound(`index ${index} missing`);
+      for (const indices of this.aliases.values()) indices.delete(index);
+    }
+  };
+
+  private resolve(name: string): Map<string, Record<string, unknown>> {
+    const aliased = this.aliases.get(name);
+    if (aliased && aliased.size > 1) throw new Error(`alias ${name} points at several indices`);
+    const index = aliased && aliased.size === 1 ? [...aliased][0]! : name;
+    const data = this.indexData.get(index);
+    if (!data) throw notFound(`index ${index} missing`);
+    return data;
+  }
+
+  async index({ index, id, body }: { index: string; id: string; body: Record<string, unknown> }) {
+    this.resolve(index).set(id, { ...body });
+  }
+
+  async update({ index, id, body, ignore }: Params & { index: string; id: string; body: { doc: Record<string, unknown> } }) {
+    const data = this.resolve(index);
+    const current = data.get(id);
+    if (!current) {
+      if (ignore?.includes(404)) return;
+      throw notFound(`document ${id} missing`);
+    }
+    data.set(id, { ...current, ...body.doc });
+  }
+
+  async delete({ index, id, ignore }: Params & { index: string; id: string }) {
+    if (!this.resolve(index).delete(id) && !ignore?.includes(404)) throw notFound(`document ${id} missing`);
+  }
+
+  async bulk({ body }: { body: Record<string, unknown>[] }) {
+    if (this.beforeBulk) await this.beforeBulk();
+    this.calls.push('bulk');
+
+    const items: Record<string, { status: number }>[] = [];
+    for (let i = 0; i < body.length; i++) {
+      const [type, meta] = Object.entries(body[i]!)[0] as [string, { _index: string; _id: string }];
+      const data = this.resolve(meta._index);
+      if (type === 'index') {
+        data.set(meta._id, { ...body[++i] });
+        items.push({ index: { status: 201 } });
+      } else {
+        items.push({ delete: { status: data.delete(meta._id) ? 200 : 404 } });
+      }
+    }
+    return { errors: false, items };
+  }
+
+  // Documents of the index an alias (or index name) points at
+  docs(name: string): Map<string, Record<string, unknown>> {
+    return this.resolve(name);
+  }
+}
+
+const makeDocument = (id: number, overrides: Partial<Document> = {}): Document => ({
+  id,
+  filename: `file-${id}.pdf`,
+  original_filename: `File ${id}.pdf`,
+  file_size: 1024,
+  mime_type: 'application/pdf',
+  file_path: `/uploads/file-${id}.pdf`,
+  uploaded_by: 1,
+  status: 'completed',
+  ocr_text: `text of document ${id}`,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+  ...overrides
+} as Document);
+
+describe('ElasticsearchService', () => {
+  let client: FakeElasticsearchClient;
+  let service: ElasticsearchService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client = new FakeElasticsearchClient();
+    service = new ElasticsearchService(client as unknown as ElasticsearchClient, 'docs');
+  });
+
+  describe('ensureIndex', () => {
+    it('creates the versioned index and points the alias at it', async () => {
+      await expect(service.ensureIndex()).resolves.toBe('docs');
+
+      const versioned = `docs-v${INDEX_MAPPING_VERSION}`;
+      expect(client.indexData.has(versioned)).toBe(true);
+      expect([...client.aliases.get('docs')!]).toEqual([versioned]);
+    });
+
+    it('reuses an existing alias and creates the index only once', async () => {
+      await service.ensureIndex();
+      await service.ensureIndex();
+      await new ElasticsearchService(client as unknown as ElasticsearchClient, 'docs').ensureIndex();
+
+      expect(client.calls.filter((call) => call.startsWith('create'))).toHaveLength(1);
+    });
+  });
+
+  describe('document writes', () => {
+    it('indexes, updates and deletes a document through the alias', async () => {
+      await service.indexDocument(makeDocument(1, { tags: ['civil'] }));
+      expect(client.docs('docs').get('1')).toMatchObject({
+        original_filename: 'File 1.pdf',
+        ocr_text: 'text of document 1',
+        tags: ['civil']
+      });
+
+      await service.updateDocument(1, { status: 'processing' });
+      expect(client.docs('docs').get('1')).toMatchObject({ status: 'processing', ocr_text: 'text of document 1' });
+
+      await service.deleteDocument(1);
+      expect(client.docs('docs').has('1')).toBe(false);
+    });
+
+    it('ignores deleting a document that is not indexed', async () => {
+      await expect(service.deleteDocument(42)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reindexAll', () => {
+    const pages = (documents: Document[], batchSize: number) =>
+      mockedDocumentModel.getDocumentsForIndexing.mockImplementation(async (afterId: number) =>
+        documents.filter((document) => document.id > afterId).slice(0, batchSize));
+
+    it('loads documents in batches into a new index and swaps the alias', async () => {
+      await service.indexDocument(makeDocument(99));
+      const oldIndex = [...client.aliases.get('docs')!][0]!;
+
+      pages([1, 2, 3, 4, 5].map((id) => makeDocument(id)), 2);
+      mockedDocumentModel.getDocumentsChangedSince.mockResolvedValue([]);
+
+      const result = await service.reindexAll(2);
+
+      expect(result).toMatchObject({ indexed: 5, failed: 0 });
+      expect(mockedDocumentModel.getDocumentsForIndexing.mock.calls.map(([afterId]) => afterId)).toEqual([0, 2, 4, 5]);
+      expect(client.calls.filter((call) => call === 'bulk')).toHaveLength(3);
+
+      expect([...client.aliases.get('docs')!]).toEqual([result.index]);
+      expect(client.aliases.get('docs-rebuild')?.size || 0).toBe(0);
+      expect(client.indexData.has(oldIndex)).toBe(false);
+      expect([...client.docs('docs').keys()]).toEqual(['1', '2', '3', '4', '5']);
+    });
+
+    it('keeps writes made while the reindex runs', async () => {
+      await service.ensureIndex();
+      pages([1, 2, 3].map((id) => makeDocument(id)), 10);
+
+      // A new upload and a deletion land while the batch is in flight
+      client.beforeBulk = async () => {
+        client.beforeBulk = null;
+        await service.indexDocument(makeDocument(4));
+        await service.deleteDocument(2);
+      };
+      mockedDocumentModel.getDocumentsChangedSince.mockResolvedValue([
+        makeDocument(2, { deleted_at: new Date() }),
+        makeDocument(4)
+      ]);
+
+      await service.reindexAll(10);
+
+      expect([...client.docs('docs').keys()].sort()).toEqual(['1', '3', '4']);
+    });
+
+    it('replays documents whose batch was read before they changed', async () => {
+      await service.ensureIndex();
+      pages([makeDocument(1, { status: 'processing' })], 10);
+      mockedDocumentModel.getDocumentsChangedSince.mockResolvedValue([makeDocument(1, { status: 'completed' })]);
+
+      await service.reindexAll(10);
+
+      expect(client.docs('docs').get('1')).toMatchObject({ status: 'completed' });
+    });
+
+    it('drops the new index and keeps the old alias when the reindex fails', async () => {
+      await service.indexDocument(makeDocument(1));
+      const oldIndex = [...client.aliases.get('docs')!][0]!;
+      mockedDocumentModel.getDocumentsForIndexing.mockRejectedValue(new Error('database down'));
+
+      await expect(service.reindexAll()).rejects.toThrow('database down');
+
+      expect([...client.aliases.get('docs')!]).toEqual([oldIndex]);
+      expect(client.aliases.get('docs-rebuild')?.size || 0).toBe(0);
+      expect([...client.indexData.keys()]).toEqual([oldIndex]);
+
+      // Writes go to the live index only once the rebuild is gone
+      await service.indexDocument(makeDocument(2));
+      expect(client.docs('docs').has('2')).toBe(true);
+    });
+
+    it('refuses to start while another reindex is running', async () => {
+      client.indexData.set('docs-v1-123', new Map());
+      client.aliases.set('docs-rebuild', new Set(['docs-v1-123']));
+
+      await expect(service.reindexAll()).rejects.toThrow('A reindex is already running');
+    });
+  });
+});
+
@@ -0,0 +1,488 @@
+import { Client as ElasticsearchClient } from 'elasticsearch';
+import { elasticsearchClient } from '../config/database';
+import { DocumentModel } from '../models/Document';
+import config from '../config';
+import logger from '../utils/logger';
+import { Document, SearchQuery, SearchResult, SearchFacetBucket } from '../types';
+
+// Bump when the mappings below change; a full reindex moves the alias to the new version
+export const INDEX_MAPPING_VERSION = 2;
+
+// Single mapping type, accepted by both Elasticsearch 6.x and 7.x
+const DOCUMENT_TYPE = '_doc';
+
+// Changes this long before a reindex started are replayed too, covering clock skew between
+// this host and Postgres
+const REPLAY_MARGIN_MS = 60 * 1000;
+
+export const documentIndexMappings = {
+  properties: {
+    filename: {
+      type: 'text',
+      fields: { keyword: { type: 'keyword', ignore_above: 256 } }
+    },
+    original_filename: {
+      type: 'text',
+      fields: { keyword: { type: 'keyword', ignore_above: 256 } }
+    },
+    ocr_text: { type: 'text' },
+    language: { type: 'keyword' },
+    ai_classification: { type: 'keyword' },
+    confidence_score: { type: 'float' },
+    project_id: { type: 'integer' },
+    project_name: { type: 'keyword' },
+    uploaded_by: { type: 'integer' },
+    status: { type: 'keyword' },
+    mime_type: { type: 'keyword' },
+    file_size: { type: 'long' },
+    tags: { type: 'keyword' },
+    created_at: { type: 'date' }
+  }
+};
+
+export interface IndexedDocument {
+  filename: string;
+  original_filename: string;
+  ocr_text: string;
+  language: string | null;
+  ai_classification: string | null;
+  confidence_score: number | null;
+  project_id: number | null;
+  project_name: string | null;
+  uploaded_by: number | null;
+  status: string;
+  mime_type: string;
+  file_size: number;
+  tags: string[];
+  created_at: Date;
+}
+
+// Restricts search hits to the caller's projects and own unassigned uploads
+export interface SearchVisibility {
+  userId: number;
+  projectIds: number[];
+}
+
+interface TermsAggregation {
+  buckets: { key: string | number; doc_count: number; project_name?: TermsAggregation }[];
+}
+
+export class ElasticsearchService {
+  private static instance: ElasticsearchService;
+  private indexReady: Promise<string> | null = null;
+
+  // The client is injectable so the service can run against an in-memory fake
+  constructor(
+    private readonly client: ElasticsearchClient = elasticsearchClient,
+    private readonly alias: string = config.database.elasticsearchIndex
+  ) {}
+
+  static getInstance(): ElasticsearchService {
+    if (!ElasticsearchService.instance) {
+      ElasticsearchService.instance = new ElasticsearchService();
+    }
+    return ElasticsearchService.instance;
+  }
+
+  /**
+   * Name of the alias that always points at the live index
+   */
+  getAlias(): string {
+    return this.alias;
+  }
+
+  /**
+   * Alias marking an index that a running reindex is filling; writes go to it as well
+   */
+  getRebuildAlias(): string {
+    return `${this.alias}-rebuild`;
+  }
+
+  /**
+   * Versioned index name for the current mapping version
+   */
+  getVersionedIndexName(suffix?: string): string {
+    const base = `${this.alias}-v${INDEX_MAPPING_VERSION}`;
+    return suffix ? `${base}-${suffix}` : base;
+  }
+
+  /**
+   * Create the versioned index and alias if they do not exist yet
+   */
+  async ensureIndex(): Promise<string> {
+    if (!this.indexReady) {
+      this.indexReady = this.createIndexIfMissing().catch((error) => {
+        this.indexReady = null;
+        throw error;
+      });
+    }
+    return this.indexReady;
+  }
+
+  private async createIndexIfMissing(): Promise<string> {
+    const aliasExists = await this.client.indices.existsAlias({ index: '_all', name: this.alias });
+    if (aliasExists) {
+      return this.alias;
+    }
+
+    const indexName = this.getVersionedIndexName();
+    await this.createIndex(indexName);
+    await this.client.indices.putAlias({ index: indexName, name: this.alias });
+
+    logger.info(`Elasticsearch index created: ${indexName} (alias ${this.alias})`);
+    return this.alias;
+  }
+
+  private async createIndex(indexName: string): Promise<void> {
+    const exists = await this.client.indices.exists({ index: indexName });
+    if (exists) {
+      return;
+    }
+
+    await this.client.indices.create({
+      index: indexName,
+      includeTypeName: true,
+      body: {
+        settings: {
+          number_of_shards: 1,
+          number_of_replicas: 0
+        },
+        mappings: {
+          [DOCUMENT_TYPE]: documentIndexMappings
+        }
+      }
+    });
+  }
+
+  /**
+   * Convert a database row into the indexed representation
+   */
+  static toIndexedDocument(document: Document & { project_name?: string }): IndexedDocument {
+    return {
+      filename: document.filename,
+      original_filename: document.original_filename,
+      ocr_text: document.ocr_text || '',
+      language: document.language || null,
+      ai_classification: document.ai_classification || null,
+      confidence_score: document.confidence_score !== undefined && document.confidence_score !== null
+        ? Number(document.confidence_score)
+        : null,
+      project_id: document.project_id || null,
+      project_name: document.project_name || null,
+      uploaded_by: document.uploaded_by || null,
+      status: document.status,
+      mime_type: document.mime_type,
+      file_size: Number(document.file_size),
+      tags: document.tags || [],
+      created_at: document.created_at
+    };
+  }
+
+  /**
+   * Index (or fully replace) a document
+   */
+  async indexDocument(document: Document & { project_name?: string }): Promise<void> {
+    const index = await this.ensureIndex();
+    const body = ElasticsearchService.toIndexedDocument(document);
+
+    for (const target of [index, ...await this.getRebuildIndices()]) {
+      await this.client.index({ index: target, type: DOCUMENT_TYPE, id: String(document.id), body });
+    }
+
+    logger.info(`Document indexed in Elasticsearch: ${document.id}`);
+  }
+
+  /**
+   * Apply a partial update to an indexed document
+   */
+  async updateDocument(documentId: number, fields: Partial<IndexedDocument>): Promise<void> {
+    const index = await this.ensureIndex();
+
+    await this.client.update({
+      index,
+      type: DOCUMENT_TYPE,
+      id: String(documentId),
+      body: { doc: fields }
+    });
+
+    // The rebuilt index may not have the document yet; the reindex replay brings it up to date
+    for (const target of await this.getRebuildIndices()) {
+      await this.client.update({
+        index: target,
+        type: DOCUMENT_TYPE,
+        id: String(documentId),
+        body: { doc: fields },
+        ignore: [404]
+      });
+    }
+
+    logger.info(`Document updated in Elasticsearch: ${documentId}`);
+  }
+
+  /**
+   * Remove a document from the index (missing documents are ignored)
+   */
+  async deleteDocument(documentId: number): Promise<void> {
+    const index = await this.ensureIndex();
+
+    for (const target of [index, ...await this.getRebuildIndices()]) {
+      await this.client.delete({ index: target, type: DOCUMENT_TYPE, id: String(documentId), ignore: [404] });
+    }
+
+    logger.info(`Document removed from Elasticsearch: ${documentId}`);
+  }
+
+  /**
+   * Build the Elasticsearch query body for a search request
+   */
+  static buildSearchBody(searchQuery: SearchQuery, visibility?: SearchVisibility): Record<string, unknown> {
+    const page = searchQuery.page || 1;
+    const limit = searchQuery.limit || 10;
+    const filters = searchQuery.filters || {};
+    const filter: Record<string, unknown>[] = [];
+
+    if (filters.document_type) {
+      filter.push({ term: { ai_classification: filters.document_type } });
+    }
+    if (filters.project_id) {
+      filter.push({ term: { project_id: filters.project_id } });
+    }
+    if (filters.status) {
+      filter.push({ term: { status: filters.status } });
+    }
+    if (filters.confidence_min !== undefined) {
+      filter.push({ range: { confidence_score: { gte: filters.confidence_min } } });
+    }
+    if (filters.date_range) {
+      filter.push({ range: { created_at: { gte: filters.date_range.start, lte: filters.date_range.end } } });
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      if (filters.tags_match === 'all') {
+        filter.push(...filters.tags.map((tag) => ({ term: { tags: tag } })));
+      } else {
+        filter.push({ terms: { tags: filters.tags } });
+      }
+    }
+    if (visibility) {
+      filter.push({
+        bool: {
+          should: [
+            { terms: { project_id: visibility.projectIds } },
+            {
+              bool: {
+                must: [{ term: { uploaded_by: visibility.userId } }],
+                must_not: [{ exists: { field: 'project_id' } }]
+              }
+            }
+          ],
+          minimum_should_match: 1
+        }
+      });
+    }
+
+    const must = searchQuery.query
+      ? [{
+          bool: {
+            should: [
+              { match: { ocr_text: { query: searchQuery.query, operator: 'and' } } },
+              { match_phrase: { ocr_text: { query: searchQuery.query, boost: 2 } } },
+              { match: { original_filename: { query: searchQuery.query, fuzziness: 'AUTO', boost: 3 } } },
+              { match: { filename: { query: searchQuery.query, fuzziness: 'AUTO' } } }
+            ],
+            minimum_should_match: 1
+          }
+        }]
+      : [{ match_all: {} }];
+
+    let sort: unknown[] = ['_score', { created_at: 'desc' }];
+    if (searchQuery.sort === 'date' || (!searchQuery.query && searchQuery.sort !== 'confidence')) {
+      sort = [{ created_at: 'desc' }];
+    } else if (searchQuery.sort === 'confidence') {
+      sort = [{ confidence_score: { order: 'desc', missing: '_last' } }, '_score'];
+    }
+
+    return {
+      from: (page - 1) * limit,
+      size: limit,
+      track_total_hits: true,
+      query: { bool: { must, filter } },
+      sort,
+      highlight: {
+        pre_tags: ['<mark>'],
+        post_tags: ['</mark>'],
+        fields: {
+          ocr_text: { fragment_size: 150, number_of_fragments: 3 },
+          original_filename: { number_of_fragments: 0 }
+        }
+      },
+      aggs: {
+        ai_classification: { terms: { field: 'ai_classification', size: 20 } },
+        project: {
+          terms: { field: 'project_id', size: 20 },
+          aggs: { project_name: { terms: { field: 'project_name', size: 1 } } }
+        },
+        status: { terms: { field: 'status', size: 10 } },
+        tags: { terms: { field: 'tags', size: 20 } }
+      }
+    };
+  }
+
+  /**
+   * Search indexed documents with highlighted snippets and facets
+   */
+  async search(searchQuery: SearchQuery, visibility?: SearchVisibility): Promise<SearchResult> {
+    const startTime = Date.now();
+    const index = await this.ensureIndex();
+
+    const response = await this.client.search<IndexedDocument>({
+      index,
+      body: ElasticsearchService.buildSearchBody(searchQuery, visibility)
+    });
+
+    // Elasticsearch 7 reports totals as an object, 6 as a number
+    const rawTotal = response.hits.total as number | { value: number };
+    const total = typeof rawTotal === 'number' ? rawTotal : rawTotal.value;
+    const aggregations = (response.aggregations || {}) as Record<string, TermsAggregation | undefined>;
+
+    const toBuckets = (aggregation?: TermsAggregation): SearchFacetBucket[] =>
+      (aggregation?.buckets || []).map((bucket) => ({
+        key: bucket.key,
+        count: bucket.doc_count,
+        ...(bucket.project_name?.buckets[0] && { label: String(bucket.project_name.buckets[0].key) })
+      }));
+
+    return {
+      documents: response.hits.hits.map((hit) => ({
+        ...(hit._source as unknown as Document),
+        id: parseInt(hit._id, 10),
+        score: hit._score,
+        highlights: hit.highlight || {}
+      })),
+      total,
+      page: searchQuery.page || 1,
+      limit: searchQuery.limit || 10,
+      processing_time: Date.now() - startTime,
+      backend: 'elasticsearch',
+      facets: {
+        ai_classification: toBuckets(aggregations.ai_classification),
+        project: toBuckets(aggregations.project),
+        status: toBuckets(aggregations.status),
+        tags: toBuckets(aggregations.tags)
+      }
+    };
+  }
+
+  /**
+   * Rebuild the index from Postgres into a fresh versioned index and atomically move the
+   * alias once every batch has been written. Writes made meanwhile also go to the new index,
+   * and documents changed since the rebuild started are replayed before the swap.
+   */
+  async reindexAll(batchSize: number = 500): Promise<{ index: string; indexed: number; failed: number }> {
+    if ((await this.getRebuildIndices()).length > 0) {
+      throw new Error(`A reindex is already running (alias ${this.getRebuildAlias()} exists)`);
+    }
+
+    const startedAt = new Date(Date.now() - REPLAY_MARGIN_MS);
+    const newIndex = this.getVersionedIndexName(Date.now().toString());
+    await this.createIndex(newIndex);
+    await this.client.indices.putAlias({ index: newIndex, name: this.getRebuildAlias() });
+
+    try {
+      let lastId = 0;
+      let indexed = 0;
+      let failed = 0;
+
+      for (;;) {
+        const batch = await DocumentModel.getDocumentsForIndexing(lastId, batchSize);
+        if (batch.length === 0) break;
+
+        const body = batch.flatMap((document) => [
+          { index: { _index: newIndex, _type: DOCUMENT_TYPE, _id: String(document.id) } },
+          ElasticsearchService.toIndexedDocument(document)
+        ]);
+
+        const batchFailures = await this.bulk(body);
+        failed += batchFailures;
+        indexed += batch.length - batchFailures;
+        lastId = batch[batch.length - 1]!.id;
+
+        logger.info(`Reindexed ${indexed} documents into ${newIndex}`);
+      }
+
+      // A batch read before a change may have been written after it; the rows as they are
+      // now win. Later changes are written to both indices until the swap.
+      const replayed = await this.replayChanges(newIndex, startedAt);
+      logger.info(`Replayed ${replayed} documents changed during the reindex`);
+
+      await this.swapAlias(newIndex);
+
+      logger.info(`Full reindex completed: ${indexed} indexed, ${failed} failed`);
+      return { index: newIndex, indexed, failed };
+    } catch (error) {
+      await this.client.indices.delete({ index: newIndex, ignore: [404] }).catch((cleanupError: unknown) =>
+        logger.error(`Failed to remove abandoned index ${newIndex}:`, cleanupError));
+      throw error;
+    }
+  }
+
+  // Indices a running reindex is filling, normally none
+  private async getRebuildIndices(): Promise<string[]> {
+    const name = this.getRebuildAlias();
+    const exists = await this.client.indices.existsAlias({ index: '_all', name });
+    return exists ? Object.keys(await this.client.indices.getAlias({ name })) : [];
+  }
+
+  // Send a bulk request and return the number of failed items
+  private async bulk(body: unknown[]): Promise<number> {
+    const response = await this.client.bulk({ body });
+    return response.errors
+      ? response.items.filter((item: Record<string, { error?: unknown; status?: number }>) =>
+          Object.values(item).some((result) => result.error && result.status !== 404)).length
+      : 0;
+  }
+
+  private async replayChanges(newIndex: string, since: Date): Promise<number> {
+    const changed = await DocumentModel.getDocumentsChangedSince(since);
+    if (changed.length === 0) {
+      return 0;
+    }
+
+    const body = changed.flatMap((document): unknown[] => document.deleted_at
+      ? [{ delete: { _index: newIndex, _type: DOCUMENT_TYPE, _id: String(document.id) } }]
+      : [
+          { index: { _index: newIndex, _type: DOCUMENT_TYPE, _id: String(document.id) } },
+          ElasticsearchService.toIndexedDocument(document)
+        ]);
+
+    const failures = await this.bulk(body);
+    if (failures > 0) {
+      throw new Error(`${failures} documents changed during the reindex could not be replayed`);
+    }
+    return changed.length;
+  }
+
+  private async swapAlias(newIndex: string): Promise<void> {
+    const aliasExists = await this.client.indices.existsAlias({ index: '_all', name: this.alias });
+    const previousIndices: string[] = aliasExists
+      ? Object.keys(await this.client.indices.getAlias({ name: this.alias }))
+      : [];
+
+    // The rebuild alias goes in the same atomic update, so every write lands in the new index
+    await this.client.indices.updateAliases({
+      body: {
+        actions: [
+          ...previousIndices.map((index) => ({ remove: { index, alias: this.alias } })),
+          { remove: { index: newIndex, alias: this.getRebuildAlias() } },
+          { add: { index: newIndex, alias: this.alias } }
+        ]
+      }
+    });
+
+    for (const index of previousIndices) {
+      await this.client.indices.delete({ index });
+      logger.info(`Old Elasticsearch index removed: ${index}`);
+    }
+
+    this.indexReady = Promise.resolve(this.alias);
+  }
+}
@@ -1,8 +1,15 @@
 import Bull, { Queue, Job } from 'bull';
 import { redisClient } from '../config/database';
 import { DocumentModel } from '../models/Document';
+import { ClassificationReviewModel } from '../models/ClassificationReview';
+import { DocumentVersionModel } from '../models/DocumentVersion';
+import { ExtractedEntityModel } from '../models/ExtractedEntity';
 import { AIService } from './AIService';
-import { FileProcessor } from '../utils/fileUpload';
+import { DuplicateDetector } from './DuplicateDetector';
+import { ElasticsearchService } from './ElasticsearchService';
+import { StorageService, buildDocumentKey } from './StorageService';
+import { FileProcessor, FileValidator } from '../utils/fileUpload';
+import { dedupeMentions, extractDocumentMentions, mentionsFromGrouped } from '../utils/entities';
 import logger from '../utils/logger';
 import config from '../config';
 import path from 'path';
@@ -12,6 +19,10 @@ export interface ProcessingJobData {
   documentId: number;
   filePath: string;
   jobType: 'upload' | 'ocr' | 'classification' | 'indexing' | 'thumbnail';
+  action?: 'index' | 'delete';
+  storageKey?: string;
+  // 'auto' or a Tesseract language list such as 'mal+eng'
+  ocrLanguage?: string;
   metadata?: Record<string, any>;
 }
 
@@ -176,7 +187,7 @@ export class ProcessingQueueService {
   }
 
   private async processDocumentJob(job: Job<ProcessingJobData>): Promise<any> {
-    const { documentId, filePath } = job.data;
+    const { documentId, filePath, ocrLanguage } = job.data;
     const startTime = Date.now();
 
     try {
@@ -197,6 +208,7 @@ export class ProcessingQueueService {
       await job.progress(50);
 
       // Generate thumbnail if applicable
+      const storage = StorageService.getProvider();
       const thumbnailPath = path.join(
         path.dirname(filePath),
         'thumbnails',
@@ -204,40 +216,70 @@ export class ProcessingQueueService {
       );
 
       try {
-        await FileProcessor.generateThumbnail(filePath, thumbnailPath);
-        metadata.thumbnail = thumbnailPath;
+        fs.mkdirSync(path.dirname(thumbnailPath), { recursive: true });
+        const generated = await FileProcessor.generateThumbnail(filePath, thumbnailPath);
+        if (generated) {
+          const thumbnailKey = `thumbnails/${path.basename(generated)}`;
+          await storage.put(thumbnailKey, generated, 'image/jpeg');
+          metadata.thumbnail_key = thumbnailKey;
+        }
       } catch (error) {
         logger.warn('Could not generate thumbnail:', error);
+      } finally {
+        await FileProcessor.cleanupTempFile(thumbnailPath);
+      }
+
+      await job.progress(65);
+
+      // A failed duplicate check must not hold up ingest
+      let duplicate = null;
+      try {
+        duplicate = await DuplicateDetector.checkFile(
+          documentId,
+          filePath,
+          FileValidator.getMimeTypeFromExtension(filePath)
+        );
+      } catch (error) {
+        logger.warn(`Duplicate check failed for document ${documentId}:`, error);
       }
 
       await job.progress(75);
 
-      // Move file to final destination
-      const finalPath = path.join(
-        config.upload.uploadDir,
-        'documents',
-        new Date().getFullYear().toString(),
-        (new Date().getMonth() + 1).toString().padStart(2, '0'),
-        path.basename(filePath)
-      );
+      // Hand the file over to the configured storage backend
+      const storageKey = buildDocumentKey(filePath);
+      await storage.put(storageKey, filePath, FileValidator.getMimeTypeFromExtension(filePath));
+      const finalPath = storage.getLocation(storageKey);
+      metadata.storage_driver = storage.driver;
 
-      await FileProcessor.moveToFinalDestination(filePath, finalPath);
-      
       // Update document in database
       const processingTime = Date.now() - startTime;
       await DocumentModel.updateStatus(documentId, 'completed', {
-        processing_time: processingTime
+        processing_time: processingTime,
+        file_path: finalPath,
+        s3_key: storageKey,
+        metadata
       });
+      await DocumentVersionModel.syncCurrent(documentId);
+
+      await FileProcessor.cleanupTempFile(filePath);
 
       await job.progress(100);
 
       // Queue OCR and classification jobs
-      await this.addOCRJob({ documentId, filePath: finalPath, jobType: 'ocr' });
+      await this.addOCRJob({
+        documentId,
+        filePath: finalPath,
+        storageKey,
+        jobType: 'ocr',
+        ...(ocrLanguage && { ocrLanguage })
+      });
       
       return {
         documentId,
         finalPath,
+        storageKey,
         metadata,
+        duplicate,
         processingTime
       };
     } catch (error) {
@@ -248,23 +290,51 @@ export class ProcessingQueueService {
   }
 
   private async processOCRJob(job: Job<ProcessingJobData>): Promise<any> {
-    const { documentId, filePath } = job.data;
+    const { documentId, filePath, storageKey, ocrLanguage } = job.data;
     const startTime = Date.now();
 
     try {
       await job.progress(10);
 
-      // Perform OCR
-      const ocrText = await AIService.performOCR(filePath);
+      // Perform OCR on a local copy when the file lives in object storage
+      const ocrResult = storageKey
+        ? await StorageService.getProvider().withLocalFile(
+            storageKey,
+            (localPath) => AIService.performOCR(localPath, ocrLanguage)
+          )
+        : await AIService.performOCR(filePath, ocrLanguage);
+      const ocrText = ocrResult.text;
       
       await job.progress(80);
 
-      // Update document with OCR text
+      // Update document with OCR text and per-page results
       const processingTime = Date.now() - startTime;
       await DocumentModel.updateStatus(documentId, 'processing', {
         ocr_text: ocrText,
-        processing_time: processingTime
+        processing_time: processingTime,
+        language: ocrResult.language,
+        ocr_confidence: ocrResult.confidence,
+        ocr_status: ocrResult.needs_review ? 'needs_review' : 'ok',
+        metadata: {
+          ocr: {
+            page_count: ocrResult.pages.length,
+            ocr_pages: ocrResult.pages.filter((page) => page.source === 'ocr').length
+          }
+        }
       });
+      await DocumentModel.replacePages(documentId, ocrResult.pages);
+      await DocumentVersionModel.syncCurrent(documentId);
+
+      try {
+        const document = await DocumentModel.findById(documentId, true);
+        await DuplicateDetector.checkText(documentId, ocrText, !!document?.is_duplicate);
+      } catch (error) {
+        logger.warn(`Near-duplicate text check failed for document ${documentId}:`, error);
+      }
+
+      if (ocrResult.needs_review) {
+        logger.warn(`Document ${documentId} flagged for OCR review (confidence: ${ocrResult.confidence})`);
+      }
 
       await job.progress(100);
 
@@ -297,7 +367,7 @@ export class ProcessingQueueService {
       // Get OCR text from metadata or database
       let ocrText = metadata?.ocrText;
       if (!ocrText) {
-        const document = await DocumentModel.findById(documentId);
+        const document = await DocumentModel.findById(documentId, true);
         ocrText = document?.ocr_text || '';
       }
 
@@ -308,14 +378,34 @@ export class ProcessingQueueService {
       
       await job.progress(80);
 
-      // Update document with classification results
+      // Low-confidence labels wait for a reviewer instead of being written to the document
       const processingTime = Date.now() - startTime;
+      const needsReview = classificationResult.confidence < config.ai.classificationConfidenceThreshold;
+
       await DocumentModel.updateStatus(documentId, 'completed', {
-        ai_classification: classificationResult.document_type,
+        ...(!needsReview && { ai_classification: classificationResult.document_type }),
         confidence_score: classificationResult.confidence,
-        processing_time: processingTime
+        classification_status: needsReview ? 'pending_review' : 'auto',
+        processing_time: processingTime,
+        metadata: { classification: { raw_label: classificationResult.raw_label } }
       });
 
+      if (needsReview) {
+        await ClassificationReviewModel.create(
+          documentId,
+          classificationResult.document_type,
+          classificationResult.confidence
+        );
+      }
+
+      // Entities are located per page when page texts exist; the classifier may report extra ones
+      const pages = await DocumentModel.getPages(documentId);
+      const mentions = dedupeMentions([
+        ...extractDocumentMentions(ocrText, pages),
+        ...mentionsFromGrouped(classificationResult.entities || {}, ocrText, pages)
+      ]);
+      await ExtractedEntityModel.replaceForDocument(documentId, mentions);
+
       await job.progress(90);
 
       // Queue indexing job
@@ -335,22 +425,42 @@ export class ProcessingQueueService {
   }
 
   private async processIndexingJob(job: Job<ProcessingJobData>): Promise<any> {
-    const { documentId } = job.data;
+    const { documentId, action = 'index' } = job.data;
+    const elasticsearchService = ElasticsearchService.getInstance();
 
     try {
       await job.progress(25);
 
+      if (action === 'delete') {
+        await elasticsearchService.deleteDocument(documentId);
+        await job.progress(100);
+
+        return {
+          documentId,
+          deleted: true
+        };
+      }
+
       // Get document details
-      const document = await DocumentModel.findById(documentId);
+      const document = await DocumentModel.findById(documentId, true);
       if (!document) {
         throw new Error('Document not found');
       }
 
+      // Processing may finish after the document was moved to the trash
+      if (document.deleted_at) {
+        await job.progress(100);
+
+        return {
+          documentId,
+          skipped: true
+        };
+      }
+
       await job.progress(50);
 
       // Index document in Elasticsearch
-      // This would integrate with Elasticsearch service
-      // await ElasticsearchService.indexDocument(document);
+      await elasticsearchService.indexDocument(document);
 
       await job.progress(100);
 
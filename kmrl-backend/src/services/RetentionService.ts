@@ -0,0 +1,49 @@
+import cron, { ScheduledTask } from 'node-cron';
+import config from '../config';
+import { RetentionDispositionModel } from '../models/RetentionDisposition';
+import logger from '../utils/logger';
+
+export class RetentionService {
+  private static task: ScheduledTask | null = null;
+  private static scanning = false;
+
+  /**
+   * List documents whose retention period has ended for disposition approval
+   */
+  static async scan(): Promise<number> {
+    const listed = await RetentionDispositionModel.queueDue();
+    logger.info(`Retention scan listed ${listed} documents for disposition`);
+    return listed;
+  }
+
+  /**
+   * Run the scan on RETENTION_REVIEW_SCHEDULE; runs never overlap
+   */
+  static start(): void {
+    if (RetentionService.task) return;
+
+    const { reviewSchedule } = config.retention;
+    if (!cron.validate(reviewSchedule)) {
+      logger.error(`Invalid retention review schedule "${reviewSchedule}", retention will not be reviewed`);
+      return;
+    }
+
+    RetentionService.task = cron.schedule(reviewSchedule, async () => {
+      if (RetentionService.scanning) return;
+      RetentionService.scanning = true;
+      try {
+        await RetentionService.scan();
+      } catch (error) {
+        logger.error('Retention scan failed:', error);
+      } finally {
+        RetentionService.scanning = false;
+      }
+    });
+    logger.info(`Retention review scheduled (${reviewSchedule})`);
+  }
+
+  static stop(): void {
+    RetentionService.task?.stop();
+    RetentionService.task = null;
+  }
+}
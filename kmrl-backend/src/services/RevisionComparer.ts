@@ -0,0 +1,84 @@
+import { DocumentVersion, EntityChange, EntityMention, RevisionDiff } from '../types';
+import { extractDocumentMentions } from '../utils/entities';
+import { DiffOperation, buildHunks, diffSequences, toDiffUnits } from '../utils/textDiff';
+
+export type RevisionContent = Pick<DocumentVersion, 'version_number' | 'ocr_text' | 'pages'>;
+
+// Line edits beyond which two revisions are reported as fully replaced
+const MAX_LINE_EDITS = 2000;
+
+// Distinct entity values of a revision, with where and how they were written
+const entityValues = (revision: RevisionContent): Map<string, EntityChange> => {
+  const mentions: EntityMention[] = extractDocumentMentions(revision.ocr_text || '', revision.pages || []);
+  const values = new Map<string, EntityChange>();
+
+  for (const mention of mentions) {
+    const key = `${mention.entity_type}:${mention.normalized_value}`;
+    const value = values.get(key) || {
+      entity_type: mention.entity_type,
+      normalized_value: mention.normalized_value,
+      raw_values: [],
+      pages: [],
+      occurrences: 0
+    };
+
+    value.occurrences++;
+    if (!value.raw_values.includes(mention.raw_value)) {
+      value.raw_values.push(mention.raw_value);
+    }
+    if (mention.page_number !== null && !value.pages.includes(mention.page_number)) {
+      value.pages.push(mention.page_number);
+    }
+    values.set(key, value);
+  }
+
+  return values;
+};
+
+export class RevisionComparer {
+  /**
+   * Line diff of two revisions' extracted text with word-level changes per hunk, plus the
+   * entity values (amounts, dates, codes, ...) that appear in only one of them
+   */
+  static compare(documentId: number, from: RevisionContent, to: RevisionContent, context: number = 3): RevisionDiff {
+    const fromUnits = toDiffUnits(from.ocr_text || '', from.pages || []);
+    const toUnits = toDiffUnits(to.ocr_text || '', to.pages || []);
+
+    const lineOperations = diffSequences(
+      fromUnits.map((unit) => unit.text),
+      toUnits.map((unit) => unit.text),
+      MAX_LINE_EDITS
+    );
+
+    // Too different to align line by line: everything old is removed, everything new added
+    const operations: DiffOperation[] = lineOperations || [
+      ...fromUnits.map((_, index) => ({ type: 'removed' as const, fromIndex: index, toIndex: null })),
+      ...toUnits.map((_, index) => ({ type: 'added' as const, fromIndex: null, toIndex: index }))
+    ];
+
+    const hunks = buildHunks(fromUnits, toUnits, operations, context);
+
+    const fromEntities = entityValues(from);
+    const toEntities = entityValues(to);
+    const onlyIn = (values: Map<string, EntityChange>, other: Map<string, EntityChange>): EntityChange[] =>
+      [...values.entries()].filter(([key]) => !other.has(key)).map(([, value]) => value);
+
+    return {
+      document_id: documentId,
+      from_version: from.version_number,
+      to_version: to.version_number,
+      hunks,
+      summary: {
+        lines_added: operations.filter((operation) => operation.type === 'added').length,
+        lines_removed: operations.filter((operation) => operation.type === 'removed').length,
+        hunks: hunks.length,
+        line_diff: lineOperations !== null
+      },
+      entities: {
+        added: onlyIn(toEntities, fromEntities),
+        removed: onlyIn(fromEntities, toEntities),
+        unchanged: [...fromEntities.keys()].filter((key) => toEntities.has(key)).length
+      }
+    };
+  }
+}
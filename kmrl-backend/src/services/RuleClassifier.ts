@@ -0,0 +1,157 @@
+import path from 'path';
+import { ClassificationRuleModel } from '../models/ClassificationRule';
+import { AIClassificationResult, ClassificationRule, ClassificationRuleEvaluation, ClassificationRuleMatch } from '../types';
+import logger from '../utils/logger';
+import { FALLBACK_CLASSIFICATION } from './ClassificationCatalog';
+
+export type RuleEntities = NonNullable<AIClassificationResult['entities']>;
+
+export interface RuleInput {
+  text: string;
+  filename: string;
+  entities: RuleEntities;
+}
+
+export const RULE_ENTITY_TYPES: (keyof RuleEntities)[] = ['dates', 'amounts', 'project_codes'];
+
+// Repeating a keyword adds weight, but only up to this many occurrences
+const MAX_KEYWORD_HITS = 3;
+
+// Score at which the winning category is half-way to full confidence
+const SCORE_SATURATION = 3;
+
+// Same cache lifetime as the classification catalog; rule edits invalidate it
+const RULES_TTL_MS = 5 * 60 * 1000;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters of any script count as word characters, so Malayalam and Hindi keywords match too
+const keywordPattern = (keyword: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+
+const round4 = (value: number): number => Math.round(value * 10000) / 10000;
+
+export class RuleClassifier {
+  private static cache: { rules: ClassificationRule[]; loadedAt: number } | null = null;
+
+  /**
+   * Rules applied by the fallback classifier (cached)
+   */
+  static async getRules(): Promise<ClassificationRule[]> {
+    const now = Date.now();
+    if (!this.cache || now - this.cache.loadedAt > RULES_TTL_MS) {
+      this.cache = { rules: await ClassificationRuleModel.getEnabled(), loadedAt: now };
+    }
+    return this.cache.rules;
+  }
+
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Reason a pattern is unusable for its rule type, or null when it is valid
+   */
+  static validatePattern(ruleType: ClassificationRule['rule_type'], pattern: string): string | null {
+    switch (ruleType) {
+      case 'regex':
+      case 'filename':
+        try {
+          new RegExp(pattern, 'i');
+          return null;
+        } catch (error) {
+          return (error as Error).message;
+        }
+      case 'extension':
+        return /^\.?[a-z0-9]+$/i.test(pattern) ? null : 'Extension must be alphanumeric, e.g. pdf or .dwg';
+      case 'entity':
+        return (RULE_ENTITY_TYPES as string[]).includes(pattern)
+          ? null
+          : `Entity must be one of: ${RULE_ENTITY_TYPES.join(', ')}`;
+      default:
+        return pattern.trim() ? null : 'Keyword must not be empty';
+    }
+  }
+
+  /**
+   * Number of times a rule fires for the input (0 when it does not apply)
+   */
+  static countHits(rule: ClassificationRule, input: RuleInput): number {
+    try {
+      switch (rule.rule_type) {
+        case 'keyword':
+          return Math.min(input.text.match(keywordPattern(rule.pattern))?.length || 0, MAX_KEYWORD_HITS);
+        case 'regex':
+          return new RegExp(rule.pattern, 'i').test(input.text) ? 1 : 0;
+        case 'filename':
+          return new RegExp(rule.pattern, 'i').test(path.basename(input.filename)) ? 1 : 0;
+        case 'extension':
+          return path.extname(input.filename).substring(1).toLowerCase() === rule.pattern.replace(/^\./, '').toLowerCase()
+            ? 1
+            : 0;
+        case 'entity':
+          return (input.entities[rule.pattern as keyof RuleEntities]?.length || 0) > 0 ? 1 : 0;
+        default:
+          return 0;
+      }
+    } catch (error) {
+      logger.warn(`Skipping classification rule ${rule.id}: ${(error as Error).message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Score every category against the input.
+   * Confidence combines the winner's share of the total score with how much evidence it has,
+   * so a single weak match or a close second place both stay below the review threshold.
+   */
+  static evaluate(rules: ClassificationRule[], input: RuleInput): ClassificationRuleEvaluation {
+    const byCategory = new Map<string, ClassificationRuleMatch[]>();
+
+    for (const rule of rules) {
+      const hits = this.countHits(rule, input);
+      if (hits === 0) continue;
+
+      const matches = byCategory.get(rule.classification) || [];
+      matches.push({
+        rule_id: rule.id,
+        rule_type: rule.rule_type,
+        pattern: rule.pattern,
+        weight: rule.weight,
+        hits,
+        score: round4(rule.weight * hits)
+      });
+      byCategory.set(rule.classification, matches);
+    }
+
+    const scores = [...byCategory.entries()]
+      .map(([classification, matches]) => ({
+        classification,
+        score: round4(matches.reduce((sum, match) => sum + match.score, 0)),
+        matches
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = scores[0];
+    if (!best) {
+      return { document_type: FALLBACK_CLASSIFICATION, confidence: 0, scores };
+    }
+
+    const total = scores.reduce((sum, category) => sum + category.score, 0);
+    const share = best.score / total;
+    const strength = best.score / (best.score + SCORE_SATURATION);
+
+    return {
+      document_type: best.classification,
+      confidence: round4(share * strength),
+      scores
+    };
+  }
+
+  /**
+   * Classify with the stored rule set
+   */
+  static async classify(input: RuleInput): Promise<ClassificationRuleEvaluation> {
+    return this.evaluate(await this.getRules(), input);
+  }
+}
@@ -0,0 +1,60 @@
+import { testElasticsearchConnection } from '../config/database';
+import { DocumentModel } from '../models/Document';
+import { ExtractedEntityModel } from '../models/ExtractedEntity';
+import { ProjectModel } from '../models/Project';
+import { ElasticsearchService, SearchVisibility } from './ElasticsearchService';
+import logger from '../utils/logger';
+import { SearchQuery, SearchResult, User } from '../types';
+
+// How long a connection probe result is trusted before pinging again
+const AVAILABILITY_TTL_MS = 30 * 1000;
+
+export class SearchService {
+  private static availability: { available: boolean; checkedAt: number } | null = null;
+
+  /**
+   * Whether Elasticsearch is reachable (cached to avoid a ping per request)
+   */
+  static async isElasticsearchAvailable(): Promise<boolean> {
+    const now = Date.now();
+    if (this.availability && now - this.availability.checkedAt < AVAILABILITY_TTL_MS) {
+      return this.availability.available;
+    }
+
+    const available = await testElasticsearchConnection();
+    this.availability = { available, checkedAt: now };
+    return available;
+  }
+
+  /**
+   * Search documents via Elasticsearch, falling back to Postgres full-text search
+   */
+  static async search(searchQuery: SearchQuery, viewer: Pick<User, 'id' | 'role'>): Promise<SearchResult> {
+    // Extracted entities and superseded revisions live in Postgres only
+    const postgresOnly = ExtractedEntityModel.hasFilters(searchQuery.filters || {}) || !!searchQuery.include_revisions;
+
+    if (!postgresOnly && await this.isElasticsearchAvailable()) {
+      try {
+        const visibility = await this.getVisibility(viewer);
+        return await ElasticsearchService.getInstance().search(searchQuery, visibility);
+      } catch (error) {
+        logger.warn('Elasticsearch search failed, falling back to Postgres:', error);
+        this.availability = { available: false, checkedAt: Date.now() };
+      }
+    }
+
+    const result = await DocumentModel.searchDocuments(searchQuery, viewer);
+    return { ...result, backend: 'postgres' };
+  }
+
+  private static async getVisibility(viewer: Pick<User, 'id' | 'role'>): Promise<SearchVisibility | undefined> {
+    if (viewer.role === 'admin') {
+      return undefined;
+    }
+
+    return {
+      userId: viewer.id,
+      projectIds: await ProjectModel.getUserProjectIds(viewer.id)
+    };
+  }
+}
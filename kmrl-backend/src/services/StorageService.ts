@@ -0,0 +1,348 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { FileProcessor } from '../utils/fileUpload';
+import logger from '../utils/logger';
+
+export interface StoredObject {
+  stream: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+// Where a document (or one of its revisions) keeps its file
+export interface StoredDocumentFile {
+  id: number;
+  document_id?: number;
+  file_path: string;
+  s3_key?: string | null | undefined;
+  metadata?: { thumbnail_key?: string; thumbnail?: string };
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number;
+  // Suggested download filename (Content-Disposition)
+  filename?: string;
+}
+
+export interface StorageProvider {
+  readonly driver: 'local' | 's3';
+
+  /**
+   * Store the contents of a local file under `key`
+   */
+  put(key: string, sourcePath: string, contentType?: string): Promise<void>;
+
+  getStream(key: string): Promise<StoredObject>;
+
+  /**
+   * Remove an object; missing objects are not an error
+   */
+  delete(key: string): Promise<void>;
+
+  exists(key: string): Promise<boolean>;
+
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+
+  /**
+   * Human-readable location stored in documents.file_path
+   */
+  getLocation(key: string): string;
+
+  /**
+   * Run `work` against a local copy of the object (OCR and thumbnailing need a file path)
+   */
+  withLocalFile<T>(key: string, work: (filePath: string) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Build the storage key for a newly processed document, e.g. documents/2024/05/<file>
+ */
+export const buildDocumentKey = (filename: string, date: Date = new Date()): string =>
+  [
+    'documents',
+    date.getFullYear().toString(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    path.basename(filename)
+  ].join('/');
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(
+    private readonly baseDir: string = config.upload.uploadDir,
+    private readonly signingSecret: string = config.storage.signingSecret,
+    private readonly publicPath: string = '/api/storage'
+  ) {
+    this.root = path.resolve(baseDir);
+  }
+
+  /**
+   * Map a key to a path inside the storage root, rejecting traversal
+   */
+  resolvePath(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, sourcePath: string): Promise<void> {
+    const destination = this.resolvePath(key);
+    if (path.resolve(sourcePath) === destination) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+    await fs.promises.copyFile(sourcePath, destination);
+    logger.info(`Stored file locally: ${key}`);
+  }
+
+  async getStream(key: string): Promise<StoredObject> {
+    const filePath = this.resolvePath(key);
+    const stats = await fs.promises.stat(filePath);
+    return { stream: fs.createReadStream(filePath), size: stats.size };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolvePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * URL served by the storage route; valid until `expires` and bound to the key and filename
+   */
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    this.resolvePath(key);
+
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn || config.storage.signedUrlTtl);
+    const params = new URLSearchParams({
+      expires: expires.toString(),
+      signature: this.sign(key, expires, options.filename)
+    });
+    if (options.filename) {
+      params.set('filename', options.filename);
+    }
+
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.publicPath}/${encodedKey}?${params.toString()}`;
+  }
+
+  verifySignature(key: string, expires: number, signature: string, filename?: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires, filename));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  getLocation(key: string): string {
+    return path.join(this.baseDir, key);
+  }
+
+  async withLocalFile<T>(key: string, work: (filePath: string) => Promise<T>): Promise<T> {
+    return work(this.resolvePath(key));
+  }
+
+  private sign(key: string, expires: number, filename: string = ''): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${filename}`)
+      .digest('hex');
+  }
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = 's3' as const;
+
+  constructor(
+    private readonly client: S3Client = S3StorageProvider.createClient(),
+    private readonly bucket: string = config.aws.s3Bucket
+  ) {}
+
+  // Custom endpoints (MinIO and similar) generally require path-style addressing
+  static createClient(): S3Client {
+    const { accessKeyId, secretAccessKey, region, endpoint } = config.aws;
+
+    return new S3Client({
+      region,
+      ...(endpoint && { endpoint, forcePathStyle: true }),
+      ...(accessKeyId && { credentials: { accessKeyId, secretAccessKey } })
+    });
+  }
+
+  async put(key: string, sourcePath: string, contentType?: string): Promise<void> {
+    const stats = await fs.promises.stat(sourcePath);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(sourcePath),
+      ContentLength: stats.size,
+      ...(contentType && { ContentType: contentType })
+    }));
+    logger.info(`Uploaded file to s3://${this.bucket}/${key}`);
+  }
+
+  async getStream(key: string): Promise<StoredObject> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Empty response body for s3://${this.bucket}/${key}`);
+    }
+
+    return {
+      stream: response.Body as Readable,
+      ...(response.ContentLength !== undefined && { size: response.ContentLength }),
+      ...(response.ContentType && { contentType: response.ContentType })
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+      if (name === 'NotFound' || $metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ...(options.filename && {
+        ResponseContentDisposition: `attachment; filename="${options.filename.replace(/"/g, '')}"`
+      })
+    });
+
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresIn || config.storage.signedUrlTtl });
+  }
+
+  getLocation(key: string): string {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async withLocalFile<T>(key: string, work: (filePath: string) => Promise<T>): Promise<T> {
+    const tempPath = path.join(os.tmpdir(), `kmrl-${uuidv4()}${path.extname(key)}`);
+
+    try {
+      const { stream } = await this.getStream(key);
+      await pipeline(stream, fs.createWriteStream(tempPath));
+      return await work(tempPath);
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+}
+
+export class StorageService {
+  private static provider: StorageProvider | null = null;
+
+  /**
+   * Provider selected by STORAGE_DRIVER
+   */
+  static getProvider(): StorageProvider {
+    if (!StorageService.provider) {
+      StorageService.provider = config.storage.driver === 's3'
+        ? new S3StorageProvider()
+        : new LocalStorageProvider();
+      logger.info(`Storage provider initialized: ${StorageService.provider.driver}`);
+    }
+    return StorageService.provider;
+  }
+
+  // Allows swapping the provider (e.g. in tests)
+  static setProvider(provider: StorageProvider): void {
+    StorageService.provider = provider;
+  }
+
+  /**
+   * Open a stored document file; files processed before the storage backend existed
+   * only have a local file_path
+   */
+  static async openDocumentFile(file: StoredDocumentFile): Promise<StoredObject | null> {
+    if (file.s3_key) {
+      const storage = StorageService.getProvider();
+      return await storage.exists(file.s3_key) ? storage.getStream(file.s3_key) : null;
+    }
+
+    if (!fs.existsSync(file.file_path)) {
+      return null;
+    }
+    return {
+      stream: fs.createReadStream(file.file_path),
+      size: fs.statSync(file.file_path).size
+    };
+  }
+
+  static async documentFileExists(file: StoredDocumentFile): Promise<boolean> {
+    return file.s3_key
+      ? StorageService.getProvider().exists(file.s3_key)
+      : fs.existsSync(file.file_path);
+  }
+
+  /**
+   * Remove stored files and thumbnails, e.g. of a document and all its revisions.
+   * Revisions restored from one another share files, which are removed once.
+   */
+  static async removeDocumentFiles(files: StoredDocumentFile[]): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      const location = file.s3_key || file.file_path;
+      if (seen.has(location)) continue;
+      seen.add(location);
+
+      if (file.s3_key) {
+        const storage = StorageService.getProvider();
+        try {
+          await storage.delete(file.s3_key);
+          if (file.metadata?.thumbnail_key) {
+            await storage.delete(file.metadata.thumbnail_key);
+          }
+        } catch (error) {
+          logger.error(`Error removing stored files for document ${file.document_id ?? file.id}:`, error);
+        }
+        continue;
+      }
+
+      await FileProcessor.removeFile(file.file_path);
+      if (file.metadata?.thumbnail) {
+        await FileProcessor.removeFile(file.metadata.thumbnail);
+      }
+    }
+  }
+}
@@ -0,0 +1,376 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface TrainingSample {
+  text: string;
+  label: string;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface ClassifierMetrics {
+  accuracy: number;
+  sample_count: number;
+  per_class: Record<string, ClassMetrics>;
+  // confusion_matrix[i][j]: samples of labels[i] predicted as labels[j]
+  confusion_matrix: { labels: string[]; matrix: number[][] };
+}
+
+/**
+ * TF-IDF features scored with multinomial naive Bayes; serialized as JSON
+ */
+export interface TextClassifierModel {
+  version: string;
+  algorithm: 'tfidf-multinomial-nb';
+  trained_at: string;
+  sample_count: number;
+  labels: string[];
+  vocabulary: string[];
+  idf: number[];
+  class_log_prior: number[];
+  // feature_log_prob[c][t]: log P(term t | label c)
+  feature_log_prob: number[][];
+  metrics?: ClassifierMetrics;
+}
+
+export interface TextPrediction {
+  label: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+}
+
+export interface TrainOptions {
+  // Terms must appear in at least this many documents
+  minDocumentFrequency?: number;
+  maxVocabulary?: number;
+  // Laplace smoothing
+  alpha?: number;
+}
+
+// High-frequency English words carry no signal about the document type
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'this', 'that', 'from', 'have', 'has', 'had', 'not',
+  'but', 'all', 'any', 'can', 'will', 'shall', 'may', 'its', 'our', 'their', 'they', 'them', 'which', 'who',
+  'been', 'being', 'into', 'than', 'then', 'there', 'these', 'those', 'such', 'also', 'per', 'upon', 'under',
+  'of', 'to', 'in', 'on', 'at', 'by', 'or', 'an', 'as', 'is', 'be', 'it', 'if', 'no', 'so', 'we', 'he', 'she'
+]);
+
+const CURRENT_POINTER = 'current';
+
+// Re-check the active version periodically so a training run is picked up without a restart
+const MODEL_TTL_MS = 5 * 60 * 1000;
+
+const round4 = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Lowercased word tokens of any script; numbers and stop words are dropped
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{M}][\p{L}\p{M}\p{N}_]+/gu) || []).filter((token) => !STOP_WORDS.has(token));
+
+const termCounts = (tokens: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sublinear TF-IDF vector, L2-normalized, as sparse (index, value) pairs
+ */
+const vectorize = (
+  text: string,
+  index: Map<string, number>,
+  idf: number[]
+): [number, number][] => {
+  const features: [number, number][] = [];
+  for (const [term, count] of termCounts(tokenize(text))) {
+    const termIndex = index.get(term);
+    if (termIndex !== undefined) {
+      features.push([termIndex, (1 + Math.log(count)) * idf[termIndex]!]);
+    }
+  }
+
+  const norm = Math.sqrt(features.reduce((sum, [, value]) => sum + value * value, 0));
+  return norm > 0 ? features.map(([termIndex, value]) => [termIndex, value / norm]) : features;
+};
+
+const versionFromDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+
+/**
+ * Fit a model on labelled texts
+ */
+export const trainTextClassifier = (samples: TrainingSample[], options: TrainOptions = {}): TextClassifierModel => {
+  const { minDocumentFrequency = 2, maxVocabulary = 20000, alpha = 0.1 } = options;
+
+  const labels = [...new Set(samples.map((sample) => sample.label))].sort();
+  if (labels.length < 2) {
+    throw new Error('Training needs samples for at least two labels');
+  }
+
+  // Vocabulary: most widespread terms that clear the document frequency floor
+  const documentFrequency = new Map<string, number>();
+  for (const sample of samples) {
+    for (const term of new Set(tokenize(sample.text))) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, frequency]) => frequency >= minDocumentFrequency)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxVocabulary)
+    .map(([term]) => term);
+
+  if (vocabulary.length === 0) {
+    throw new Error('Training samples share no terms; lower the document frequency floor or add samples');
+  }
+
+  const index = new Map(vocabulary.map((term, termIndex) => [term, termIndex]));
+  const idf = vocabulary.map((term) => Math.log((1 + samples.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+  const labelIndex = new Map(labels.map((label, position) => [label, position]));
+  const classCounts = labels.map(() => 0);
+  const featureSums = labels.map(() => new Array<number>(vocabulary.length).fill(0));
+
+  for (const sample of samples) {
+    const position = labelIndex.get(sample.label)!;
+    classCounts[position]! += 1;
+    for (const [termIndex, value] of vectorize(sample.text, index, idf)) {
+      featureSums[position]![termIndex]! += value;
+    }
+  }
+
+  const featureLogProb = featureSums.map((sums) => {
+    const total = sums.reduce((sum, value) => sum + value, 0) + alpha * vocabulary.length;
+    return sums.map((value) => Math.log((value + alpha) / total));
+  });
+
+  const trainedAt = new Date();
+
+  return {
+    version: versionFromDate(trainedAt),
+    algorithm: 'tfidf-multinomial-nb',
+    trained_at: trainedAt.toISOString(),
+    sample_count: samples.length,
+    labels,
+    vocabulary,
+    idf,
+    class_log_prior: classCounts.map((count) => Math.log(count / samples.length)),
+    feature_log_prob: featureLogProb
+  };
+};
+
+/**
+ * Most likely label with posterior probabilities; null when the text has no known term
+ */
+export const predictLabel = (model: TextClassifierModel, text: string): TextPrediction | null => {
+  const index = new Map(model.vocabulary.map((term, termIndex) => [term, termIndex]));
+  const features = vectorize(text, index, model.idf);
+  if (features.length === 0) {
+    return null;
+  }
+
+  const logScores = model.labels.map((_, position) =>
+    features.reduce(
+      (score, [termIndex, value]) => score + value * model.feature_log_prob[position]![termIndex]!,
+      model.class_log_prior[position]!
+    )
+  );
+
+  // Softmax, shifted by the maximum for numerical stability
+  const max = Math.max(...logScores);
+  const exps = logScores.map((score) => Math.exp(score - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+
+  const probabilities: Record<string, number> = {};
+  let best = 0;
+  model.labels.forEach((label, position) => {
+    probabilities[label] = round4(exps[position]! / total);
+    if (exps[position]! > exps[best]!) {
+      best = position;
+    }
+  });
+
+  return {
+    label: model.labels[best]!,
+    confidence: probabilities[model.labels[best]!]!,
+    probabilities
+  };
+};
+
+/**
+ * Accuracy, per-class precision/recall and the confusion matrix on held-out samples
+ */
+export const evaluateTextClassifier = (model: TextClassifierModel, samples: TrainingSample[]): ClassifierMetrics => {
+  const labels = [...new Set([...model.labels, ...samples.map((sample) => sample.label)])].sort();
+  const labelIndex = new Map(labels.map((label, position) => [label, position]));
+  const matrix = labels.map(() => labels.map(() => 0));
+  let correct = 0;
+
+  for (const sample of samples) {
+    // Texts without any known term count as a miss for their class
+    const predicted = predictLabel(model, sample.text)?.label;
+    const actualIndex = labelIndex.get(sample.label)!;
+    if (predicted === undefined) continue;
+
+    matrix[actualIndex]![labelIndex.get(predicted)!]! += 1;
+    if (predicted === sample.label) {
+      correct += 1;
+    }
+  }
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, position) => {
+    const truePositives = matrix[position]![position]!;
+    const predictedCount = matrix.reduce((sum, row) => sum + row[position]!, 0);
+    const support = samples.filter((sample) => sample.label === label).length;
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+
+    perClass[label] = {
+      precision: round4(precision),
+      recall: round4(recall),
+      f1: precision + recall > 0 ? round4((2 * precision * recall) / (precision + recall)) : 0,
+      support
+    };
+  });
+
+  return {
+    accuracy: samples.length > 0 ? round4(correct / samples.length) : 0,
+    sample_count: samples.length,
+    per_class: perClass,
+    confusion_matrix: { labels, matrix }
+  };
+};
+
+/**
+ * Deterministic stratified split: every n-th sample of each label is held out
+ */
+export const splitSamples = (
+  samples: TrainingSample[],
+  holdoutRatio: number
+): { train: TrainingSample[]; test: TrainingSample[] } => {
+  const train: TrainingSample[] = [];
+  const test: TrainingSample[] = [];
+  if (holdoutRatio <= 0) {
+    return { train: [...samples], test };
+  }
+
+  const step = Math.max(2, Math.round(1 / holdoutRatio));
+  const seen = new Map<string, number>();
+
+  for (const sample of samples) {
+    const count = (seen.get(sample.label) || 0) + 1;
+    seen.set(sample.label, count);
+    (count % step === 0 ? test : train).push(sample);
+  }
+
+  return { train, test };
+};
+
+/**
+ * Versioned model files on disk: <dir>/<version>.json plus a `current` pointer
+ */
+export class TextClassifierStore {
+  constructor(private readonly directory: string = config.ai.textClassifierDir) {}
+
+  listVersions(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => path.basename(file, '.json'))
+      .sort();
+  }
+
+  getCurrentVersion(): string | null {
+    const pointer = path.join(this.directory, CURRENT_POINTER);
+    return fs.existsSync(pointer) ? fs.readFileSync(pointer, 'utf8').trim() || null : null;
+  }
+
+  load(version: string): TextClassifierModel {
+    return JSON.parse(fs.readFileSync(this.modelPath(version), 'utf8'));
+  }
+
+  save(model: TextClassifierModel): string {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const modelPath = this.modelPath(model.version);
+    fs.writeFileSync(modelPath, JSON.stringify(model));
+    return modelPath;
+  }
+
+  /**
+   * Point the service at a saved version (also used to roll back)
+   */
+  activate(version: string): void {
+    if (!fs.existsSync(this.modelPath(version))) {
+      throw new Error(`Text classifier version not found: ${version}`);
+    }
+
+    // Write then rename so readers never see a half-written pointer
+    const pointer = path.join(this.directory, CURRENT_POINTER);
+    fs.writeFileSync(`${pointer}.tmp`, version);
+    fs.renameSync(`${pointer}.tmp`, pointer);
+  }
+
+  private modelPath(version: string): string {
+    if (!/^[\w.-]+$/.test(version)) {
+      throw new Error(`Invalid text classifier version: ${version}`);
+    }
+    return path.join(this.directory, `${version}.json`);
+  }
+}
+
+export class TextClassifier {
+  private static store = new TextClassifierStore();
+  private static cache: { model: TextClassifierModel | null; checkedAt: number } | null = null;
+
+  /**
+   * Active model, or null when none has been trained
+   */
+  static getModel(): TextClassifierModel | null {
+    const now = Date.now();
+    if (this.cache && now - this.cache.checkedAt <= MODEL_TTL_MS) {
+      return this.cache.model;
+    }
+
+    let model = this.cache?.model || null;
+    try {
+      const version = this.store.getCurrentVersion();
+      if (!version) {
+        model = null;
+      } else if (model?.version !== version) {
+        model = this.store.load(version);
+        logger.info(`Text classifier model loaded: ${version}`);
+      }
+    } catch (error) {
+      logger.error('Failed to load text classifier model:', error);
+    }
+
+    this.cache = { model, checkedAt: now };
+    return model;
+  }
+
+  static classify(text: string): TextPrediction | null {
+    const model = this.getModel();
+    return model ? predictLabel(model, text) : null;
+  }
+
+  // Allows pointing at another model directory (e.g. in tests)
+  static setStore(store: TextClassifierStore): void {
+    this.store = store;
+    this.cache = null;
+  }
+}
@@ -0,0 +1,106 @@
+import cron, { ScheduledTask } from 'node-cron';
+import config from '../config';
+import { DocumentModel } from '../models/Document';
+import { DocumentVersionModel } from '../models/DocumentVersion';
+import { ProjectModel } from '../models/Project';
+import { StorageService } from './StorageService';
+import logger from '../utils/logger';
+import { Document } from '../types';
+
+export class TrashService {
+  private static task: ScheduledTask | null = null;
+  private static purging = false;
+
+  /**
+   * Permanently delete a document with the stored files of all its revisions. It was
+   * removed from the search index when it was moved to the trash.
+   */
+  static async purgeDocument(document: Document): Promise<void> {
+    // Read before the rows cascade away with the document
+    const versions = await DocumentVersionModel.getByDocument(document.id);
+
+    await DocumentModel.purgeDocument(document.id);
+    await StorageService.removeDocumentFiles([document, ...versions]);
+  }
+
+  /**
+   * Permanently delete a project and the trashed documents in it
+   */
+  static async purgeProject(projectId: number): Promise<void> {
+    const documents = await DocumentModel.getDocumentsByProject(projectId, true);
+
+    for (const document of documents.filter((document) => document.deleted_at)) {
+      await TrashService.purgeDocument(document);
+    }
+    await ProjectModel.purgeProject(projectId);
+  }
+
+  /**
+   * Purge everything that has been in the trash for longer than the retention period.
+   * A failing item is logged and skipped so it cannot block the rest.
+   */
+  static async purgeExpired(retentionDays: number = config.trash.retentionDays): Promise<{ documents: number; projects: number }> {
+    let documents = 0;
+    let projects = 0;
+
+    // Documents first: those trashed with an expired project expire together with it
+    let lastId = 0;
+    for (;;) {
+      const batch = await DocumentModel.getExpiredTrash(retentionDays, lastId);
+      if (batch.length === 0) break;
+
+      for (const document of batch) {
+        lastId = document.id;
+        try {
+          await TrashService.purgeDocument(document);
+          documents++;
+        } catch (error) {
+          logger.error(`Error purging trashed document ${document.id}:`, error);
+        }
+      }
+    }
+
+    for (const projectId of await ProjectModel.getExpiredTrash(retentionDays)) {
+      try {
+        await TrashService.purgeProject(projectId);
+        projects++;
+      } catch (error) {
+        logger.error(`Error purging trashed project ${projectId}:`, error);
+      }
+    }
+
+    logger.info(`Trash purge removed ${documents} documents and ${projects} projects older than ${retentionDays} days`);
+    return { documents, projects };
+  }
+
+  /**
+   * Run the purge on TRASH_PURGE_SCHEDULE; runs never overlap
+   */
+  static start(): void {
+    if (TrashService.task) return;
+
+    const { purgeSchedule, retentionDays } = config.trash;
+    if (!cron.validate(purgeSchedule)) {
+      logger.error(`Invalid trash purge schedule "${purgeSchedule}", trash will not be purged`);
+      return;
+    }
+
+    TrashService.task = cron.schedule(purgeSchedule, async () => {
+      if (TrashService.purging) return;
+      TrashService.purging = true;
+      try {
+        await TrashService.purgeExpired();
+      } catch (error) {
+        logger.error('Trash purge failed:', error);
+      } finally {
+        TrashService.purging = false;
+      }
+    });
+    logger.info(`Trash purge scheduled (${purgeSchedule}, retention ${retentionDays} days)`);
+  }
+
+  static stop(): void {
+    TrashService.task?.stop();
+    TrashService.task = null;
+  }
+}
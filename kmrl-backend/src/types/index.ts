@@ -25,6 +25,17 @@ export interface Project {
   team_size: number;
   start_date?: Date;
   end_date?: Date;
+  created_by?: number;
+  // Default OCR language setting for uploads ('auto' or e.g. 'mal+eng')
+  ocr_language?: string;
+  // Set while the project is in the trash
+  deleted_at?: Date | null;
+  deleted_by?: number | null;
+  // Blocks deleting the project and any of its documents
+  legal_hold?: boolean;
+  legal_hold_reason?: string | null;
+  legal_hold_by?: number | null;
+  legal_hold_at?: Date | null;
   created_at: Date;
   updated_at?: Date;
 }
@@ -36,14 +47,38 @@ export interface Document {
   file_size: number;
   mime_type: string;
   file_path: string;
+  s3_key?: string;
   project_id?: number;
   uploaded_by: number;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   ai_classification?: string;
   confidence_score?: number;
+  classification_status?: 'auto' | 'pending_review' | 'reviewed';
   processing_time?: number;
   ocr_text?: string;
+  ocr_confidence?: number;
+  ocr_status?: 'ok' | 'needs_review' | 'corrected';
+  ocr_language?: string;
+  // Detected dominant language (Tesseract code)
+  language?: string;
   metadata: Record<string, any>;
+  tags?: string[];
+  // Set when ingest matched an earlier document (see DuplicateDetector)
+  is_duplicate?: boolean;
+  duplicate_of?: number | null;
+  duplicate_type?: DuplicateType | null;
+  duplicate_similarity?: number | null;
+  // Revision the row currently describes (see DocumentVersionModel)
+  current_version?: number;
+  // Set while the document is in the trash (see TrashService)
+  deleted_at?: Date | null;
+  deleted_by?: number | null;
+  // Blocks deletion, purge and disposition; a hold on the project applies as well
+  legal_hold?: boolean;
+  legal_hold_reason?: string | null;
+  legal_hold_by?: number | null;
+  legal_hold_at?: Date | null;
+  project_legal_hold?: boolean;
   created_at: Date;
   processed_at?: Date;
 }
@@ -71,8 +106,62 @@ export interface DashboardMetrics {
   storageUsed: number;
 }
 
+export interface DocumentClassification {
+  id: number;
+  name: string;
+  description?: string;
+  color?: string;
+  // Lowercase labels from classifiers that map onto this category
+  aliases: string[];
+  is_active: boolean;
+  // Retention policy: keep for N years (null: indefinitely) from upload or a metadata date
+  retention_years?: number | null;
+  retention_from?: 'created_at' | 'metadata';
+  retention_metadata_key?: string | null;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+export type ClassificationRuleType = 'keyword' | 'regex' | 'filename' | 'extension' | 'entity';
+
+export interface ClassificationRule {
+  id: number;
+  // Catalog category the rule votes for
+  classification: string;
+  rule_type: ClassificationRuleType;
+  pattern: string;
+  weight: number;
+  description?: string;
+  is_active: boolean;
+  created_by?: number;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+export interface ClassificationRuleMatch {
+  rule_id: number;
+  rule_type: ClassificationRuleType;
+  pattern: string;
+  weight: number;
+  hits: number;
+  score: number;
+}
+
+export interface ClassificationRuleEvaluation {
+  document_type: string;
+  confidence: number;
+  // Every category with at least one matching rule, best first
+  scores: {
+    classification: string;
+    score: number;
+    matches: ClassificationRuleMatch[];
+  }[];
+}
+
 export interface AIClassificationResult {
   document_type: string;
+  // Label as emitted by the classifier, before catalog normalization
+  raw_label?: string;
   confidence: number;
   processing_time: number;
   entities?: {
@@ -83,6 +172,205 @@ export interface AIClassificationResult {
   similar_documents?: string[];
 }
 
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OCRPage {
+  page_number: number;
+  text: string;
+  // 0-1; embedded text layers count as fully confident
+  confidence: number | null;
+  source: 'text_layer' | 'ocr';
+  // Only present for pages that went through Tesseract
+  words?: OCRWord[];
+}
+
+export interface OCRResult {
+  text: string;
+  confidence: number | null;
+  language: string | null;
+  pages: OCRPage[];
+  // Below config.ai.ocrConfidenceThreshold, or OCR produced no text at all
+  needs_review: boolean;
+}
+
+export interface EntityMention {
+  entity_type: string;
+  raw_value: string;
+  normalized_value: string;
+  // ISO date (YYYY-MM-DD) for date entities
+  value_date?: string;
+  value_amount?: number;
+  currency?: string;
+  page_number: number | null;
+  char_offset: number | null;
+  source: 'extractor' | 'classifier';
+}
+
+export interface ExtractedEntity extends EntityMention {
+  id: number;
+  document_id: number;
+  created_at: Date;
+}
+
+// Document filters on extracted entities, e.g. "mentions KM-2024-001" or "amount over ₹10,00,000"
+export interface EntityFilters {
+  entity?: string;
+  entity_type?: string;
+  amount_min?: number;
+  amount_max?: number;
+  mentioned_from?: string;
+  mentioned_to?: string;
+}
+
+// Document filters on tags: any of the tags (default) or all of them
+export interface TagFilters {
+  tags?: string[];
+  tags_match?: 'any' | 'all';
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface TagSuggestion {
+  tag: string;
+  source: 'classification' | 'entity';
+  // Entity type the tag was derived from
+  entity_type?: string;
+  // Mentions of the entity in the document (1 for the classification)
+  occurrences: number;
+}
+
+export interface DocumentVersion {
+  id: number;
+  document_id: number;
+  version_number: number;
+  filename: string;
+  original_filename: string;
+  file_size: number;
+  mime_type: string;
+  file_path: string;
+  s3_key?: string | null;
+  metadata: Document['metadata'];
+  ocr_text?: string | null;
+  // Page texts at the time of the revision, for diffs
+  pages?: Pick<OCRPage, 'page_number' | 'text'>[] | null;
+  change_note?: string | null;
+  restored_from?: number | null;
+  uploaded_by?: number | null;
+  uploaded_by_email?: string | null;
+  is_current?: boolean;
+  created_at: Date;
+}
+
+export type DiffChangeType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffWord {
+  type: DiffChangeType;
+  text: string;
+}
+
+export interface DiffLine {
+  type: DiffChangeType;
+  text: string;
+  // 1-based line numbers in the old and new revision text (null on the side that lacks the line)
+  from_line: number | null;
+  to_line: number | null;
+  from_page: number | null;
+  to_page: number | null;
+}
+
+export interface DiffHunk {
+  from_start: number;
+  from_count: number;
+  to_start: number;
+  to_count: number;
+  from_pages: number[];
+  to_pages: number[];
+  lines: DiffLine[];
+  // Word-level changes of the hunk text
+  words: DiffWord[];
+}
+
+// An entity value found in only one of two revisions
+export interface EntityChange {
+  entity_type: string;
+  normalized_value: string;
+  raw_values: string[];
+  pages: number[];
+  occurrences: number;
+}
+
+export interface RevisionDiff {
+  document_id: number;
+  from_version: number;
+  to_version: number;
+  hunks: DiffHunk[];
+  summary: {
+    lines_added: number;
+    lines_removed: number;
+    hunks: number;
+    // False when the texts differed too much for a line-by-line comparison
+    line_diff: boolean;
+  };
+  entities: {
+    added: EntityChange[];
+    removed: EntityChange[];
+    unchanged: number;
+  };
+}
+
+export type DuplicateType = 'exact' | 'near_text' | 'near_image';
+
+export interface DuplicateMatch {
+  original_id: number;
+  duplicate_type: DuplicateType;
+  // 1 for identical files, otherwise the share of matching hash bits
+  similarity: number;
+}
+
+// An original document together with the documents flagged as its duplicates
+export interface DuplicateCluster {
+  original: Document;
+  duplicates: Document[];
+}
+
+export interface ClassificationReview {
+  id: number;
+  document_id: number;
+  predicted_label: string;
+  predicted_confidence: number | null;
+  final_label?: string;
+  status: 'pending' | 'accepted' | 'overridden';
+  reviewed_by?: number;
+  reviewed_at?: Date;
+  notes?: string;
+  created_at: Date;
+}
+
+// Document past its retention period, awaiting or after a disposition decision
+export interface RetentionDisposition {
+  id: number;
+  document_id: number;
+  original_filename: string;
+  classification: string | null;
+  project_id: number | null;
+  retention_years: number;
+  retention_due_at: Date;
+  status: 'pending' | 'approved' | 'rejected';
+  decided_by?: number | null;
+  decided_at?: Date | null;
+  decision_note?: string | null;
+  // Set once the approved document and its files are gone
+  disposed_at?: Date | null;
+  created_at: Date;
+}
+
 export interface SearchQuery {
   query: string;
   filters?: {
@@ -93,18 +381,34 @@ export interface SearchQuery {
       end: Date;
     };
     confidence_min?: number;
-  };
+    status?: string;
+  } & EntityFilters & TagFilters;
   sort?: 'relevance' | 'date' | 'confidence';
+  // Also match the text of superseded revisions (Postgres only)
+  include_revisions?: boolean;
   page?: number;
   limit?: number;
 }
 
+export interface SearchFacetBucket {
+  key: string | number;
+  label?: string;
+  count: number;
+}
+
 export interface SearchResult {
-  documents: Document[];
+  documents: (Document & { highlights?: Record<string, string[]>; score?: number })[];
   total: number;
   page: number;
   limit: number;
   processing_time: number;
+  backend?: 'elasticsearch' | 'postgres';
+  facets?: {
+    ai_classification: SearchFacetBucket[];
+    project: SearchFacetBucket[];
+    status: SearchFacetBucket[];
+    tags: SearchFacetBucket[];
+  };
 }
 
 export interface FileUploadRequest {
@@ -147,6 +451,7 @@ export interface Config {
     mongodb: string;
     redis: string;
     elasticsearch: string;
+    elasticsearchIndex: string;
   };
   firebase: {
     projectId: string;
@@ -169,6 +474,11 @@ export interface Config {
     s3Bucket: string;
     endpoint?: string;
   };
+  storage: {
+    driver: 'local' | 's3';
+    signedUrlTtl: number;
+    signingSecret: string;
+  };
   upload: {
     maxFileSize: number;
     uploadDir: string;
@@ -178,6 +488,11 @@ export interface Config {
     pythonServiceUrl: string;
     ocrConfidenceThreshold: number;
     classificationConfidenceThreshold: number;
+    pdfRasterizerPath: string;
+    ocrDpi: number;
+    tessdataPath: string;
+    defaultOcrLanguage: string;
+    textClassifierDir: string;
   };
   cors: {
     origins: string[];
@@ -186,4 +501,11 @@ export interface Config {
     windowMs: number;
     maxRequests: number;
   };
+  trash: {
+    retentionDays: number;
+    purgeSchedule: string;
+  };
+  retention: {
+    reviewSchedule: string;
+  };
 }
\ No newline at end of file
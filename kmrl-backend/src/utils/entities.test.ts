@@ -0,0 +1,13 @@
+import corpus from '../config/entityCorpus.json';
+import { extractMentions } from './entities';
+
+// The same snippet corpus `npm run check:entities` reports on; both missed and unexpected
+// entities fail a snippet
+describe('extractMentions on the entity corpus', () => {
+  it.each(corpus.map((entry) => [entry.name, entry] as const))('%s', (_name, entry) => {
+    const found = extractMentions(entry.text).map((mention) => `${mention.entity_type}:${mention.normalized_value}`);
+    const expected = entry.expected.map((entity) => `${entity.type}:${entity.value}`);
+
+    expect(found.sort()).toEqual(expected.sort());
+  });
+});
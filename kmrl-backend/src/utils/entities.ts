@@ -0,0 +1,154 @@
+import { EntityMention, OCRPage } from '../types';
+import { DEFAULT_ENTITY_EXTRACTORS, EntityExtractor, GroupedEntities } from './entityExtractors';
+
+export { EntityExtractor, GroupedEntities, normalizeAmount, normalizeDate } from './entityExtractors';
+
+/**
+ * Extractors by entity type; additional extractors can be registered at startup
+ */
+export class EntityExtractorRegistry {
+  private readonly extractors = new Map<string, EntityExtractor>();
+
+  constructor(extractors: EntityExtractor[] = []) {
+    extractors.forEach((extractor) => this.register(extractor));
+  }
+
+  /**
+   * Add an extractor, replacing any existing one of the same type
+   */
+  register(extractor: EntityExtractor): this {
+    const nonGlobal = extractor.patterns.find((pattern) => !pattern.global);
+    if (nonGlobal) {
+      throw new Error(`Entity extractor ${extractor.type} pattern must be global: ${nonGlobal}`);
+    }
+
+    this.extractors.set(extractor.type, extractor);
+    return this;
+  }
+
+  unregister(type: string): boolean {
+    return this.extractors.delete(type);
+  }
+
+  get(type: string): EntityExtractor | undefined {
+    return this.extractors.get(type);
+  }
+
+  list(): EntityExtractor[] {
+    return [...this.extractors.values()];
+  }
+
+  /**
+   * Entities in a piece of text with their offsets. Where patterns of one type overlap
+   * (KM-2024 inside KM-2024-001) only the longest match is kept.
+   */
+  extract(text: string, pageNumber: number | null = null): EntityMention[] {
+    const mentions: EntityMention[] = [];
+
+    for (const extractor of this.extractors.values()) {
+      const matches = extractor.patterns
+        .flatMap((pattern) => [...text.matchAll(pattern)])
+        .map((match) => {
+          const start = match.index || 0;
+          const value = extractor.valueGroup !== undefined ? match[extractor.valueGroup] : undefined;
+          return value
+            ? { raw: value, start: start + match[0].lastIndexOf(value), end: start + match[0].length }
+            : { raw: match[0], start, end: start + match[0].length };
+        })
+        .sort((a, b) => a.start - b.start || b.end - a.end);
+
+      let coveredUntil = -1;
+      for (const match of matches) {
+        if (match.start < coveredUntil) continue;
+
+        const normalized = extractor.normalize(match.raw);
+        if (!normalized) continue;
+
+        coveredUntil = match.end;
+        mentions.push({
+          entity_type: extractor.type,
+          raw_value: match.raw,
+          ...normalized,
+          page_number: pageNumber,
+          char_offset: match.start,
+          source: 'extractor'
+        });
+      }
+    }
+
+    return mentions;
+  }
+}
+
+export const entityExtractors = new EntityExtractorRegistry(DEFAULT_ENTITY_EXTRACTORS);
+
+export const extractMentions = (text: string, pageNumber: number | null = null): EntityMention[] =>
+  entityExtractors.extract(text, pageNumber);
+
+/**
+ * Extract page by page when page texts are known, otherwise from the full text
+ */
+export const extractDocumentMentions = (text: string, pages: Pick<OCRPage, 'page_number' | 'text'>[] = []): EntityMention[] =>
+  pages.length > 0
+    ? pages.flatMap((page) => extractMentions(page.text, page.page_number))
+    : extractMentions(text);
+
+/**
+ * Turn raw values reported by the classifier into mentions, locating each in the text where possible
+ */
+export const mentionsFromGrouped = (
+  grouped: Partial<GroupedEntities>,
+  text: string,
+  pages: Pick<OCRPage, 'page_number' | 'text'>[] = []
+): EntityMention[] => {
+  const mentions: EntityMention[] = [];
+
+  for (const extractor of entityExtractors.list()) {
+    if (!extractor.group) continue;
+
+    for (const raw of grouped[extractor.group] || []) {
+      const normalized = typeof raw === 'string' ? extractor.normalize(raw) : null;
+      if (!normalized) continue;
+
+      const page = pages.find((candidate) => candidate.text.includes(raw));
+      const offset = page ? page.text.indexOf(raw) : text.indexOf(raw);
+
+      mentions.push({
+        entity_type: extractor.type,
+        raw_value: raw,
+        ...normalized,
+        page_number: page ? page.page_number : null,
+        char_offset: offset >= 0 ? offset : null,
+        source: 'classifier'
+      });
+    }
+  }
+
+  return mentions;
+};
+
+/**
+ * Drop repeated mentions of the same value at the same position (extractor results win)
+ */
+export const dedupeMentions = (mentions: EntityMention[]): EntityMention[] => {
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    const key = [mention.entity_type, mention.normalized_value, mention.page_number, mention.char_offset].join('|');
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+export const groupMentions = (mentions: EntityMention[]): GroupedEntities => {
+  const grouped: GroupedEntities = { dates: [], amounts: [], project_codes: [] };
+  for (const mention of mentions) {
+    const group = entityExtractors.get(mention.entity_type)?.group;
+    if (group) {
+      grouped[group].push(mention.raw_value);
+    }
+  }
+  return grouped;
+};
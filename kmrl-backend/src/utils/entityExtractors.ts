@@ -0,0 +1,250 @@
+import { EntityMention } from '../types';
+
+// Grouping returned by AIService.extractEntities and the Python service
+export interface GroupedEntities {
+  dates: string[];
+  amounts: string[];
+  project_codes: string[];
+}
+
+export type NormalizedEntity = Pick<EntityMention, 'normalized_value' | 'value_date' | 'value_amount' | 'currency'>;
+
+export interface EntityExtractor {
+  type: string;
+  // Key in the grouped representation, for the types the classifier also reports
+  group?: keyof GroupedEntities;
+  // Must use the global flag
+  patterns: RegExp[];
+  // Capture group holding the value (e.g. the number after "Tender No."); the whole match when omitted
+  valueGroup?: number;
+  // null rejects the match (e.g. 31/02/2024 or a GSTIN with a bad check digit)
+  normalize(raw: string): NormalizedEntity | null;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * ISO date for numeric dates (YYYY-MM-DD, or day-first DD/MM/YYYY, DD-MM-YYYY and DD.MM.YYYY
+ * as is usual in India) and written ones such as "12th March 2024" or "March 12, 2024"
+ */
+export const normalizeDate = (raw: string): string | null => {
+  const text = raw.toLowerCase();
+  const monthMatch = text.match(/[a-z]{3,}/g)?.find((word) => MONTHS[word.slice(0, 3)] !== undefined);
+
+  if (monthMatch) {
+    const numbers = (text.match(/\d+/g) || []).map((part) => parseInt(part, 10));
+    const day = numbers.find((number) => number <= 31);
+    const year = numbers.find((number) => number >= 1000);
+    return day !== undefined && year !== undefined ? toIsoDate(year, MONTHS[monthMatch.slice(0, 3)]!, day) : null;
+  }
+
+  const parts = text.split(/[/.-]/).map((part) => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some((part) => Number.isNaN(part))) {
+    return null;
+  }
+
+  const [first, second, third] = parts as [number, number, number];
+  return /^\d{4}/.test(text) ? toIsoDate(first, second, third) : toIsoDate(third, second, first);
+};
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5, l: 1e5,
+  crore: 1e7, crores: 1e7, cr: 1e7
+};
+
+/**
+ * Numeric value and ISO currency of an amount such as ₹10,00,000, Rs. 45,000/-, ₹ 4.5 Cr,
+ * 12 lakh or $1,200; plain numbers are taken as rupees
+ */
+export const normalizeAmount = (raw: string): { value: number; currency: string } | null => {
+  const match = raw.trim().match(
+    /^(₹|rs\.?|inr|\$|usd)?\s*(\d[\d,]*(?:\.\d+)?)\s*(lakhs?|lacs?|crores?|cr|l)?\.?\s*(?:\/-)?$/i
+  );
+  if (!match) {
+    return null;
+  }
+
+  const currency = match[1] && /^(\$|usd)$/i.test(match[1]) ? 'USD' : 'INR';
+  const multiplier = match[3] ? AMOUNT_MULTIPLIERS[match[3].toLowerCase()]! : 1;
+  const value = parseFloat(match[2]!.replace(/,/g, '')) * multiplier;
+
+  return { value: Math.round(value * 100) / 100, currency };
+};
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Check character of the first 14 characters of a GSTIN (mod-36 checksum)
+ */
+export const gstinCheckCharacter = (body: string): string => {
+  let sum = 0;
+  for (let position = 0; position < 14; position++) {
+    const product = GSTIN_CHARSET.indexOf(body[position]!) * (position % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36]!;
+};
+
+// Fourth PAN character: the holder type (person, company, firm, trust, ...)
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/;
+
+// Reference numbers such as KMRL/ENG/2024/123, 45/2023 or WO-17; must contain a digit
+const REFERENCE = '([A-Z0-9]+(?:[/.\\-][A-Z0-9]+)*)';
+const REFERENCE_PREFIX = '\\s*(?:No|Number|Ref(?:erence)?)\\b\\.?\\s*[:.\\-]?\\s*';
+
+const normalizeReference = (raw: string): NormalizedEntity | null =>
+  /\d/.test(raw) ? { normalized_value: raw.toUpperCase() } : null;
+
+// Kochi Metro stations (Aluva - Thrippunithura) with common spellings
+const STATIONS: Record<string, string[]> = {
+  'Aluva': [],
+  'Pulinchodu': [],
+  'Companypady': [],
+  'Ambattukavu': [],
+  'Muttom': [],
+  'Kalamassery': [],
+  'Cochin University': ['CUSAT'],
+  'Pathadipalam': [],
+  'Edappally': ['Edapally'],
+  'Changampuzha Park': [],
+  'Palarivattom': [],
+  'JLN Stadium': ['Jawaharlal Nehru Stadium', 'J.L.N. Stadium'],
+  'Kaloor': [],
+  'Town Hall': ['Lissie'],
+  'M.G. Road': ['MG Road', 'M G Road', 'Mahatma Gandhi Road'],
+  "Maharaja's College": ['Maharajas College'],
+  'Ernakulam South': [],
+  'Kadavanthra': [],
+  'Elamkulam': [],
+  'Vyttila': ['Vytilla'],
+  'Thaikoodam': [],
+  'Petta': [],
+  'Vadakkekotta': [],
+  'SN Junction': ['S.N. Junction', 'S N Junction'],
+  'Thrippunithura': ['Tripunithura', 'Tripunithura Terminal']
+};
+
+const STATION_LOOKUP = new Map<string, string>();
+for (const [station, aliases] of Object.entries(STATIONS)) {
+  for (const name of [station, ...aliases]) {
+    STATION_LOOKUP.set(name.toLowerCase().replace(/[^a-z]/g, ''), station);
+  }
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const STATION_PATTERN = new RegExp(
+  `\\b(?:${[...Object.keys(STATIONS), ...Object.values(STATIONS).flat()]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => escapeRegExp(name).replace(/\\\. ?|\s+/g, '\\.?\\s*'))
+    .join('|')})(?![A-Za-z])`,
+  'gi'
+);
+
+export const DEFAULT_ENTITY_EXTRACTORS: EntityExtractor[] = [
+  {
+    type: 'date',
+    group: 'dates',
+    patterns: [
+      /\b\d{1,2}\/\d{1,2}\/\d{4}\b/g,
+      /\b\d{4}-\d{1,2}-\d{1,2}\b/g,
+      /\b\d{1,2}-\d{1,2}-\d{4}\b/g,
+      /\b\d{1,2}\.\d{1,2}\.\d{4}\b/g,
+      new RegExp(`\\b\\d{1,2}${ORDINAL}[\\s-]+(?:of\\s+)?${MONTH_NAME}[\\s,-]+\\d{4}\\b`, 'gi'),
+      new RegExp(`\\b${MONTH_NAME}\\s+\\d{1,2}${ORDINAL},?\\s+\\d{4}\\b`, 'gi')
+    ],
+    normalize: (raw) => {
+      const iso = normalizeDate(raw);
+      return iso ? { normalized_value: iso, value_date: iso } : null;
+    }
+  },
+  {
+    type: 'amount',
+    group: 'amounts',
+    patterns: [
+      /(?<![A-Za-z])(?:₹|Rs\.?|INR|\$|USD)\s*\d[\d,]*(?:\.\d+)?(?:\s*(?:lakhs?|lacs?|crores?|cr|L)\b\.?)?(?:\s*\/-)?/gi,
+      /\b\d[\d,]*(?:\.\d+)?\s*(?:lakhs?|lacs?|crores?)\b/gi
+    ],
+    normalize: (raw) => {
+      const amount = normalizeAmount(raw);
+      return amount
+        ? { normalized_value: amount.value.toFixed(2), value_amount: amount.value, currency: amount.currency }
+        : null;
+    }
+  },
+  {
+    // Formats like PROJ-001, KM-2024-001
+    type: 'project_code',
+    group: 'project_codes',
+    patterns: [
+      /\b[A-Z]{2,4}-\d{3,4}\b/g,
+      /\b[A-Z]{2,4}-\d{4}-\d{3}\b/g,
+      /\bPROJ-\d+\b/g,
+      /\bKM-\d+-\d+\b/g
+    ],
+    normalize: (raw) => ({ normalized_value: raw.toUpperCase() })
+  },
+  {
+    // State code, PAN, entity number, 'Z', check character
+    type: 'gstin',
+    patterns: [/\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/g],
+    normalize: (raw) => {
+      const stateCode = parseInt(raw.slice(0, 2), 10);
+      return stateCode >= 1 && stateCode <= 38 && gstinCheckCharacter(raw) === raw[14]
+        ? { normalized_value: raw }
+        : null;
+    }
+  },
+  {
+    type: 'pan',
+    patterns: [/\b[A-Z]{5}\d{4}[A-Z]\b/g],
+    normalize: (raw) => (PAN_PATTERN.test(raw) ? { normalized_value: raw } : null)
+  },
+  {
+    type: 'tender_number',
+    patterns: [new RegExp(`\\bTender${REFERENCE_PREFIX}${REFERENCE}`, 'gi')],
+    valueGroup: 1,
+    normalize: normalizeReference
+  },
+  {
+    type: 'work_order_number',
+    patterns: [new RegExp(`\\b(?:Work\\s*Order|W\\.?O\\.?)${REFERENCE_PREFIX}${REFERENCE}`, 'gi')],
+    valueGroup: 1,
+    normalize: normalizeReference
+  },
+  {
+    type: 'station',
+    patterns: [STATION_PATTERN],
+    normalize: (raw) => {
+      const station = STATION_LOOKUP.get(raw.toLowerCase().replace(/[^a-z]/g, ''));
+      return station ? { normalized_value: station } : null;
+    }
+  },
+  {
+    // Chainage along the alignment, km+m: "Ch. 12+450" -> 12+450
+    type: 'chainage',
+    patterns: [/\b(?:Ch(?:ainage)?\.?)\s*:?\s*(\d{1,3}\s*\+\s*\d{1,3}(?:\.\d+)?)/gi],
+    valueGroup: 1,
+    normalize: (raw) => {
+      const [kilometres, metres] = raw.split('+').map((part) => parseFloat(part));
+      if (kilometres === undefined || metres === undefined || metres >= 1000) {
+        return null;
+      }
+      const [whole, fraction] = metres.toString().split('.');
+      return { normalized_value: `${kilometres}+${whole!.padStart(3, '0')}${fraction ? `.${fraction}` : ''}` };
+    }
+  }
+];
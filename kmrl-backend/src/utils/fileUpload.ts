@@ -188,6 +188,20 @@ export class FileProcessor {
     }
   }
 
+  static async removeFile(filePath: string): Promise<boolean> {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+        logger.info(`File removed: ${filePath}`);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      logger.error('Error removing file:', error);
+      return false;
+    }
+  }
+
   static generateUniqueFilename(originalName: string): string {
     const extension = path.extname(originalName);
     const baseName = path.basename(originalName, extension);
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import sharp from 'sharp';
+
+// Words per shingle; short phrases keep the hash stable under small OCR differences
+const SHINGLE_SIZE = 3;
+
+// Shorter texts (cover sheets, blank scans) collide too easily to be compared
+export const MIN_SIMHASH_WORDS = 20;
+
+const HASH_BITS = 64;
+
+/**
+ * SHA-256 of a file's contents, hex encoded
+ */
+export const sha256File = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+const hash64 = (value: string): bigint => crypto.createHash('md5').update(value).digest().readBigUInt64BE(0);
+
+/**
+ * 64-bit SimHash over word shingles of the text, or null when the text is too short.
+ * Texts that differ in a few words differ in a few bits.
+ */
+export const simhash = (text: string): bigint | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+  if (words.length < MIN_SIMHASH_WORDS) {
+    return null;
+  }
+
+  const weights = new Array<number>(HASH_BITS).fill(0);
+  for (let start = 0; start + SHINGLE_SIZE <= words.length; start++) {
+    const shingleHash = hash64(words.slice(start, start + SHINGLE_SIZE).join(' '));
+    for (let bit = 0; bit < HASH_BITS; bit++) {
+      weights[bit]! += (shingleHash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  return weights.reduce((hash, weight, bit) => (weight > 0 ? hash | (1n << BigInt(bit)) : hash), 0n);
+};
+
+/**
+ * 64-bit difference hash of an image: each bit says whether a pixel of the 9x8 greyscale
+ * thumbnail is brighter than its right neighbour, so rescaled or recompressed copies match
+ */
+export const differenceHash = async (filePath: string): Promise<bigint> => {
+  const pixels = await sharp(filePath)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      const left = pixels[row * 9 + column]!;
+      const right = pixels[row * 9 + column + 1]!;
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: bigint, b: bigint): number => {
+  let difference = a ^ b;
+  let count = 0;
+  while (difference) {
+    difference &= difference - 1n;
+    count++;
+  }
+  return count;
+};
+
+/**
+ * LSH bands of a hash: `bandCount` slices, each tagged with its position.
+ * Hashes within bandCount - 1 bits of each other share at least one band.
+ */
+export const hashBands = (hash: bigint, bandCount: number): number[] => {
+  const bandBits = HASH_BITS / bandCount;
+  const mask = (1n << BigInt(bandBits)) - 1n;
+  return Array.from({ length: bandCount }, (_, band) =>
+    band * 2 ** bandBits + Number((hash >> BigInt(band * bandBits)) & mask)
+  );
+};
+
+// Postgres BIGINT is signed; hashes are stored as their two's complement value
+export const toSignedHash = (hash: bigint): string => BigInt.asIntN(HASH_BITS, hash).toString();
+
+export const fromSignedHash = (value: string): bigint => BigInt.asUintN(HASH_BITS, BigInt(value));
+
+export const similarity = (distance: number): number => Math.round((1 - distance / HASH_BITS) * 10000) / 10000;
@@ -0,0 +1,45 @@
+// Tesseract language codes we ship traineddata for
+export const OCR_LANGUAGES = ['eng', 'mal', 'hin'] as const;
+
+export type OCRLanguage = typeof OCR_LANGUAGES[number];
+
+// 'auto' loads every supported language and detects the dominant one afterwards
+export const AUTO_LANGUAGE = 'auto';
+
+// Unicode blocks used to tell the supported languages apart
+const SCRIPT_PATTERNS: Record<OCRLanguage, RegExp> = {
+  eng: /[A-Za-z]/g,
+  mal: /[ഀ-ൿ]/g,
+  hin: /[ऀ-ॿ]/g
+};
+
+/**
+ * Whether a language setting is 'auto' or a '+'-joined list such as 'mal+eng'
+ */
+export const isValidLanguageSetting = (value: string): boolean =>
+  value === AUTO_LANGUAGE ||
+  value.split('+').every((code) => (OCR_LANGUAGES as readonly string[]).includes(code));
+
+/**
+ * Tesseract language string for a document or project setting
+ */
+export const toTesseractLanguages = (setting?: string | null): string =>
+  !setting || setting === AUTO_LANGUAGE ? OCR_LANGUAGES.join('+') : setting;
+
+/**
+ * Dominant language of extracted text, judged by script; null when there is no letter at all
+ */
+export const detectLanguage = (text: string): OCRLanguage | null => {
+  let detected: OCRLanguage | null = null;
+  let best = 0;
+
+  for (const language of OCR_LANGUAGES) {
+    const count = text.match(SCRIPT_PATTERNS[language])?.length || 0;
+    if (count > best) {
+      detected = language;
+      best = count;
+    }
+  }
+
+  return detected;
+};
@@ -0,0 +1,227 @@
+import { QueryBuilder, escapeLike } from './queryBuilder';
+
+describe('QueryBuilder', () => {
+  describe('empty builder', () => {
+    it('builds no WHERE clause, no SET list and no values', () => {
+      const qb = new QueryBuilder();
+
+      expect(qb.buildWhere()).toBe('');
+      expect(qb.buildSet()).toBe('');
+      expect(qb.getValues()).toEqual([]);
+      expect(qb.hasConditions()).toBe(false);
+      expect(qb.hasAssignments()).toBe(false);
+    });
+  });
+
+  describe('param', () => {
+    it('numbers placeholders in the order values are bound', () => {
+      const qb = new QueryBuilder();
+
+      expect(qb.param('a')).toBe('$1');
+      expect(qb.param(2)).toBe('$2');
+      expect(qb.param(null)).toBe('$3');
+      expect(qb.getValues()).toEqual(['a', 2, null]);
+    });
+
+    it('returns a snapshot of the values', () => {
+      const qb = new QueryBuilder();
+      qb.param('a');
+
+      const values = qb.getValues();
+      qb.param('b');
+
+      expect(values).toEqual(['a']);
+      expect(qb.getValues()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('where', () => {
+    it('adds raw conditions without binding values', () => {
+      const qb = new QueryBuilder().where('d.deleted_at IS NULL');
+
+      expect(qb.buildWhere()).toBe('WHERE d.deleted_at IS NULL');
+      expect(qb.getValues()).toEqual([]);
+      expect(qb.hasConditions()).toBe(true);
+    });
+
+    it('joins conditions with AND and keeps placeholders bound through param', () => {
+      const qb = new QueryBuilder();
+      qb.where(`d.id = ANY(${qb.param([1, 2])}::int[])`).where(`d.tags && ${qb.param(['civil'])}::text[]`);
+
+      expect(qb.buildWhere()).toBe('WHERE d.id = ANY($1::int[]) AND d.tags && $2::text[]');
+      expect(qb.getValues()).toEqual([[1, 2], ['civil']]);
+    });
+
+    it('lets a placeholder be referenced twice', () => {
+      const qb = new QueryBuilder();
+      const viewer = qb.param(7);
+      qb.where(`(d.uploaded_by = ${viewer} OR d.reviewed_by = ${viewer})`);
+
+      expect(qb.buildWhere()).toBe('WHERE (d.uploaded_by = $1 OR d.reviewed_by = $1)');
+      expect(qb.getValues()).toEqual([7]);
+    });
+  });
+
+  describe('whereEquals', () => {
+    it('adds column = $n for set values', () => {
+      const qb = new QueryBuilder().whereEquals('d.status', 'completed').whereEquals('project_id', 3);
+
+      expect(qb.buildWhere()).toBe('WHERE d.status = $1 AND project_id = $2');
+      expect(qb.getValues()).toEqual(['completed', 3]);
+    });
+
+    it.each([undefined, null, ''])('skips %p without binding a value', (value) => {
+      const qb = new QueryBuilder().whereEquals('d.status', value);
+
+      expect(qb.buildWhere()).toBe('');
+      expect(qb.getValues()).toEqual([]);
+    });
+
+    it('keeps falsy values that are set', () => {
+      const qb = new QueryBuilder().whereEquals('d.progress', 0).whereEquals('d.legal_hold', false);
+
+      expect(qb.buildWhere()).toBe('WHERE d.progress = $1 AND d.legal_hold = $2');
+      expect(qb.getValues()).toEqual([0, false]);
+    });
+
+    it('rejects columns that are not plain identifiers', () => {
+      const qb = new QueryBuilder();
+
+      expect(() => qb.whereEquals('status; DROP TABLE documents', 'x')).toThrow('Invalid SQL identifier');
+      expect(() => qb.whereEquals('a.b.c', 'x')).toThrow('Invalid SQL identifier');
+      expect(qb.getValues()).toEqual([]);
+    });
+  });
+
+  describe('whereCompare', () => {
+    it.each(['>', '>=', '<', '<=', '<>'] as const)('adds column %s $n', (operator) => {
+      const qb = new QueryBuilder().whereCompare('d.confidence_score', operator, 0.5);
+
+      expect(qb.buildWhere()).toBe(`WHERE d.confidence_score ${operator} $1`);
+      expect(qb.getValues()).toEqual([0.5]);
+    });
+
+    it('binds zero and dates', () => {
+      const start = new Date('2024-01-01T00:00:00Z');
+      const qb = new QueryBuilder()
+        .whereCompare('d.confidence_score', '>=', 0)
+        .whereCompare('d.created_at', '>=', start);
+
+      expect(qb.buildWhere()).toBe('WHERE d.confidence_score >= $1 AND d.created_at >= $2');
+      expect(qb.getValues()).toEqual([0, start]);
+    });
+
+    it.each([undefined, null, ''])('skips %p', (value) => {
+      const qb = new QueryBuilder().whereCompare('d.created_at', '<=', value);
+
+      expect(qb.buildWhere()).toBe('');
+      expect(qb.getValues()).toEqual([]);
+    });
+
+    it('rejects columns that are not plain identifiers', () => {
+      expect(() => new QueryBuilder().whereCompare('1=1 OR d.id', '>', 0)).toThrow('Invalid SQL identifier');
+    });
+  });
+
+  describe('set', () => {
+    it('adds column = $n assignments', () => {
+      const qb = new QueryBuilder().set('name', 'Phase 2').set('progress', 40);
+
+      expect(qb.buildSet()).toBe('name = $1, progress = $2');
+      expect(qb.getValues()).toEqual(['Phase 2', 40]);
+      expect(qb.hasAssignments()).toBe(true);
+    });
+
+    it('skips undefined but writes null, empty strings and zero', () => {
+      const qb = new QueryBuilder()
+        .set('description', undefined)
+        .set('end_date', null)
+        .set('notes', '')
+        .set('progress', 0);
+
+      expect(qb.buildSet()).toBe('end_date = $1, notes = $2, progress = $3');
+      expect(qb.getValues()).toEqual([null, '', 0]);
+    });
+
+    it('rejects columns that are not plain identifiers', () => {
+      expect(() => new QueryBuilder().set('name = name, role', 'admin')).toThrow('Invalid SQL identifier');
+    });
+  });
+
+  describe('setRaw', () => {
+    it('adds assignments without binding values', () => {
+      const qb = new QueryBuilder().setRaw('updated_at = NOW()');
+
+      expect(qb.buildSet()).toBe('updated_at = NOW()');
+      expect(qb.getValues()).toEqual([]);
+    });
+  });
+
+  describe('combined', () => {
+    it('numbers SET and WHERE placeholders as one sequence for an UPDATE', () => {
+      const qb = new QueryBuilder()
+        .set('status', 'completed')
+        .set('notes', undefined)
+        .setRaw('updated_at = NOW()')
+        .set('progress', 100);
+      qb.whereEquals('id', 12).where('deleted_at IS NULL').whereCompare('progress', '<', 100);
+
+      expect(`UPDATE projects SET ${qb.buildSet()} ${qb.buildWhere()}`).toBe(
+        'UPDATE projects SET status = $1, updated_at = NOW(), progress = $2 WHERE id = $3 AND deleted_at IS NULL AND progress < $4'
+      );
+      expect(qb.getValues()).toEqual(['completed', 100, 12, 100]);
+    });
+
+    it('numbers LIMIT and OFFSET after the filters of a paged SELECT', () => {
+      const qb = new QueryBuilder()
+        .where('d.deleted_at IS NULL')
+        .whereEquals('d.project_id', 4)
+        .whereEquals('d.status', undefined)
+        .whereEquals('d.ai_classification', 'invoice')
+        .whereCompare('d.created_at', '>=', '2024-01-01');
+      const whereClause = qb.buildWhere();
+      const countValues = qb.getValues();
+
+      const query = `SELECT * FROM documents d ${whereClause} LIMIT ${qb.param(10)} OFFSET ${qb.param(20)}`;
+
+      expect(query).toBe(
+        'SELECT * FROM documents d WHERE d.deleted_at IS NULL AND d.project_id = $1 AND d.ai_classification = $2 ' +
+        'AND d.created_at >= $3 LIMIT $4 OFFSET $5'
+      );
+      expect(countValues).toEqual([4, 'invoice', '2024-01-01']);
+      expect(qb.getValues()).toEqual([4, 'invoice', '2024-01-01', 10, 20]);
+    });
+
+    it('builds nothing when every filter is unset', () => {
+      const qb = new QueryBuilder()
+        .whereEquals('d.project_id', undefined)
+        .whereEquals('d.status', '')
+        .whereCompare('d.confidence_score', '>=', null)
+        .set('name', undefined);
+
+      expect(qb.buildWhere()).toBe('');
+      expect(qb.buildSet()).toBe('');
+      expect(qb.getValues()).toEqual([]);
+    });
+  });
+});
+
+describe('escapeLike', () => {
+  it.each([
+    ['plain text', 'plain text'],
+    ['100%', '100\\%'],
+    ['file_name', 'file\\_name'],
+    ['C:\\docs', 'C:\\\\docs'],
+    ['%_\\', '\\%\\_\\\\']
+  ])('escapes %p as %p', (input, expected) => {
+    expect(escapeLike(input)).toBe(expected);
+  });
+
+  it('only matches literally when bound into a LIKE pattern', () => {
+    const qb = new QueryBuilder();
+    qb.where(`d.original_filename ILIKE ${qb.param(`%${escapeLike('50%_off')}%`)}`);
+
+    expect(qb.buildWhere()).toBe('WHERE d.original_filename ILIKE $1');
+    expect(qb.getValues()).toEqual(['%50\\%\\_off%']);
+  });
+});
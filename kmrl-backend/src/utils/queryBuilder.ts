@@ -0,0 +1,112 @@
+// Column references must be plain (optionally table-qualified) identifiers
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i;
+
+const assertIdentifier = (column: string): void => {
+  if (!IDENTIFIER_PATTERN.test(column)) {
+    throw new Error(`Invalid SQL identifier: ${column}`);
+  }
+};
+
+/**
+ * Escape LIKE/ILIKE wildcards so user input only matches literally
+ */
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Collects positional parameters together with WHERE conditions and SET
+ * assignments so that every $n placeholder always matches its value.
+ * Values are never interpolated into SQL text.
+ */
+export class QueryBuilder {
+  private readonly values: unknown[] = [];
+  private readonly conditions: string[] = [];
+  private readonly assignments: string[] = [];
+
+  /**
+   * Register a value and return its placeholder; reuse the placeholder to
+   * reference the same value more than once
+   */
+  param(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+
+  /**
+   * Add a raw condition; values must be bound through param()
+   */
+  where(condition: string): this {
+    this.conditions.push(condition);
+    return this;
+  }
+
+  /**
+   * Add `column = $n` when the value is set (undefined, null and '' are skipped)
+   */
+  whereEquals(column: string, value: unknown): this {
+    if (value === undefined || value === null || value === '') {
+      return this;
+    }
+    assertIdentifier(column);
+    return this.where(`${column} = ${this.param(value)}`);
+  }
+
+  /**
+   * Add `column <operator> $n` when the value is set
+   */
+  whereCompare(column: string, operator: '>' | '>=' | '<' | '<=' | '<>', value: unknown): this {
+    if (value === undefined || value === null || value === '') {
+      return this;
+    }
+    assertIdentifier(column);
+    return this.where(`${column} ${operator} ${this.param(value)}`);
+  }
+
+  /**
+   * Add `column = $n` to the SET list when the value is not undefined
+   */
+  set(column: string, value: unknown): this {
+    if (value === undefined) {
+      return this;
+    }
+    assertIdentifier(column);
+    this.assignments.push(`${column} = ${this.param(value)}`);
+    return this;
+  }
+
+  /**
+   * Add a raw SET expression such as `updated_at = NOW()`
+   */
+  setRaw(assignment: string): this {
+    this.assignments.push(assignment);
+    return this;
+  }
+
+  hasConditions(): boolean {
+    return this.conditions.length > 0;
+  }
+
+  hasAssignments(): boolean {
+    return this.assignments.length > 0;
+  }
+
+  /**
+   * `WHERE a AND b`, or an empty string when there are no conditions
+   */
+  buildWhere(): string {
+    return this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '';
+  }
+
+  /**
+   * Comma-separated SET assignments
+   */
+  buildSet(): string {
+    return this.assignments.join(', ');
+  }
+
+  /**
+   * Snapshot of the values bound so far
+   */
+  getValues(): unknown[] {
+    return [...this.values];
+  }
+}
@@ -0,0 +1,60 @@
+import { Document, ExtractedEntity, TagSuggestion } from '../types';
+
+export const MAX_TAG_LENGTH = 50;
+
+// Entity types whose values make useful tags (codes and places rather than dates or amounts)
+export const TAGGABLE_ENTITY_TYPES = ['project_code', 'station', 'tender_number', 'work_order_number'];
+
+/**
+ * Canonical form of a tag: trimmed, lowercase, whitespace runs as single hyphens. Letters of
+ * any script, digits and - _ . / : are allowed. Returns null for anything else.
+ */
+export const normalizeTag = (value: string): string | null => {
+  const tag = value.trim().toLowerCase().replace(/\s+/g, '-');
+  return tag.length <= MAX_TAG_LENGTH && /^[\p{L}\p{N}][\p{L}\p{M}\p{N}\-_./:]*$/u.test(tag) ? tag : null;
+};
+
+// Distinct canonical tags, dropping invalid ones
+export const normalizeTags = (values: string[]): string[] =>
+  [...new Set(values.map(normalizeTag).filter((tag): tag is string => tag !== null))];
+
+/**
+ * Tags suggested from a document's classification and its most frequent taggable entities,
+ * leaving out tags the document already has
+ */
+export const suggestTags = (
+  document: Pick<Document, 'ai_classification' | 'tags'>,
+  entities: Pick<ExtractedEntity, 'entity_type' | 'normalized_value'>[],
+  limit: number = 10
+): TagSuggestion[] => {
+  const existing = new Set(document.tags || []);
+  const suggestions = new Map<string, TagSuggestion>();
+
+  const classificationTag = document.ai_classification ? normalizeTag(document.ai_classification) : null;
+  if (classificationTag) {
+    suggestions.set(classificationTag, { tag: classificationTag, source: 'classification', occurrences: 1 });
+  }
+
+  for (const entity of entities) {
+    if (!TAGGABLE_ENTITY_TYPES.includes(entity.entity_type)) continue;
+
+    const tag = normalizeTag(entity.normalized_value);
+    if (!tag) continue;
+
+    const suggestion = suggestions.get(tag);
+    if (suggestion) {
+      suggestion.occurrences++;
+    } else {
+      suggestions.set(tag, { tag, source: 'entity', entity_type: entity.entity_type, occurrences: 1 });
+    }
+  }
+
+  // The classification leads; entities follow by how often the document mentions them
+  return [...suggestions.values()]
+    .filter((suggestion) => !existing.has(suggestion.tag))
+    .sort((a, b) =>
+      Number(b.source === 'classification') - Number(a.source === 'classification')
+      || b.occurrences - a.occurrences
+      || a.tag.localeCompare(b.tag))
+    .slice(0, limit);
+};
@@ -0,0 +1,220 @@
+import { DiffChangeType, DiffHunk, DiffLine, DiffWord } from '../types';
+
+export interface DiffOperation {
+  type: DiffChangeType;
+  // Index into the old sequence (removed and unchanged items)
+  fromIndex: number | null;
+  // Index into the new sequence (added and unchanged items)
+  toIndex: number | null;
+}
+
+// A line of revision text together with the page it is on (null when pages are unknown)
+export interface DiffUnit {
+  text: string;
+  page: number | null;
+}
+
+/**
+ * Shortest edit script between two sequences (Myers' O((N+M)D) algorithm), or null when
+ * more than `maxEdits` insertions and deletions are needed. The trace kept for backtracking
+ * grows with the square of the edit distance, which is what the limit bounds.
+ */
+export const diffSequences = (from: string[], to: string[], maxEdits: number = 2000): DiffOperation[] | null => {
+  // Common prefix and suffix are unchanged and need no search
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < from.length - prefix && suffix < to.length - prefix
+    && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) suffix++;
+
+  const a = from.slice(prefix, from.length - suffix);
+  const b = to.slice(prefix, to.length - suffix);
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d - 1 .. d + 1] as it was before step d
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  const middle: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]!;
+    const at = (k: number): number => snapshot[k + d + 1]!;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      middle.push({ type: 'unchanged', fromIndex: prefix + x, toIndex: prefix + y });
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        y--;
+        middle.push({ type: 'added', fromIndex: null, toIndex: prefix + y });
+      } else {
+        x--;
+        middle.push({ type: 'removed', fromIndex: prefix + x, toIndex: null });
+      }
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  const unchanged = (start: number, count: number, shift: number): DiffOperation[] =>
+    Array.from({ length: count }, (_, index) => ({
+      type: 'unchanged' as const,
+      fromIndex: start + index,
+      toIndex: start + index + shift
+    }));
+
+  return [
+    ...unchanged(0, prefix, 0),
+    ...middle.reverse(),
+    ...unchanged(from.length - suffix, suffix, to.length - from.length)
+  ];
+};
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+/**
+ * Word-level changes between two texts; consecutive tokens of the same kind are merged.
+ * Falls back to replacing the whole text when the texts have too little in common.
+ */
+export const diffWords = (from: string, to: string, maxEdits: number = 2000): DiffWord[] => {
+  const fromTokens = tokenizeWords(from);
+  const toTokens = tokenizeWords(to);
+  const operations = diffSequences(fromTokens, toTokens, maxEdits);
+
+  if (!operations) {
+    return [
+      ...(from ? [{ type: 'removed' as const, text: from }] : []),
+      ...(to ? [{ type: 'added' as const, text: to }] : [])
+    ];
+  }
+
+  const words: DiffWord[] = [];
+  for (const operation of operations) {
+    const text = operation.type === 'added' ? toTokens[operation.toIndex!]! : fromTokens[operation.fromIndex!]!;
+    const last = words[words.length - 1];
+    if (last && last.type === operation.type) {
+      last.text += text;
+    } else {
+      words.push({ type: operation.type, text });
+    }
+  }
+  return words;
+};
+
+/**
+ * Split revision text into lines tagged with their page; the full text is used when
+ * no page texts are stored
+ */
+export const toDiffUnits = (text: string, pages: { page_number: number; text: string }[] = []): DiffUnit[] =>
+  pages.length > 0
+    ? pages.flatMap((page) => page.text.split(/\r?\n/).map((line) => ({ text: line, page: page.page_number })))
+    : text.split(/\r?\n/).map((line) => ({ text: line, page: null }));
+
+/**
+ * Group a line diff into hunks with `context` unchanged lines around each change, like a
+ * unified diff. Line numbers are 1-based; each hunk also carries a word-level diff of its text.
+ */
+export const buildHunks = (
+  from: DiffUnit[],
+  to: DiffUnit[],
+  operations: DiffOperation[],
+  context: number = 3
+): DiffHunk[] => {
+  const changed = operations
+    .map((operation, index) => (operation.type === 'unchanged' ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Ranges of operations to show; changes closer than twice the context share a hunk
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  return ranges.map(([start, end]) => {
+    const lines: DiffLine[] = operations.slice(start, end + 1).map((operation) => {
+      const fromUnit = operation.fromIndex !== null ? from[operation.fromIndex]! : null;
+      const toUnit = operation.toIndex !== null ? to[operation.toIndex]! : null;
+      return {
+        type: operation.type,
+        text: (toUnit || fromUnit)!.text,
+        from_line: operation.fromIndex !== null ? operation.fromIndex + 1 : null,
+        to_line: operation.toIndex !== null ? operation.toIndex + 1 : null,
+        from_page: fromUnit ? fromUnit.page : null,
+        to_page: toUnit ? toUnit.page : null
+      };
+    });
+
+    const fromLines = lines.filter((line) => line.from_line !== null);
+    const toLines = lines.filter((line) => line.to_line !== null);
+    const pagesOf = (pages: (number | null)[]): number[] =>
+      [...new Set(pages.filter((page): page is number => page !== null))];
+
+    // As in unified diffs, an empty side starts at the line it follows
+    const linesBefore = (side: 'fromIndex' | 'toIndex'): number =>
+      operations.slice(0, start).filter((operation) => operation[side] !== null).length;
+
+    return {
+      from_start: fromLines[0]?.from_line ?? linesBefore('fromIndex'),
+      from_count: fromLines.length,
+      to_start: toLines[0]?.to_line ?? linesBefore('toIndex'),
+      to_count: toLines.length,
+      from_pages: pagesOf(fromLines.map((line) => line.from_page)),
+      to_pages: pagesOf(toLines.map((line) => line.to_page)),
+      lines,
+      words: diffWords(
+        fromLines.map((line) => line.text).join('\n'),
+        toLines.map((line) => line.text).join('\n')
+      )
+    };
+  });
+};